@@ -0,0 +1,66 @@
+// ICE servers handed to each client on connect, configured with PartyKit
+// environment variables (`npx partykit env add NAME` or `--var NAME=value`):
+//
+//   ICE_STUN_URLS         comma-separated stun: URLs (default: Google's public STUN server)
+//   ICE_TURN_URLS         comma-separated turn:/turns: URLs
+//   ICE_TURN_SECRET       the TURN server's shared REST API secret (coturn: static-auth-secret)
+//   ICE_TURN_TTL_SECONDS  how long generated TURN credentials stay valid (default: 12 hours, at most 48)
+//
+// TURN credentials follow the TURN REST API convention: the username is
+// "<expiry unix time>:<user id>" and the password is base64(HMAC-SHA1(secret, username)),
+// so the TURN server can check them without talking to us.
+
+import type { IceConfigPayload, IceServerConfig } from "../src/lib/protocol";
+
+const DEFAULT_STUN_URLS = ['stun:stun.l.google.com:19302'];
+const DEFAULT_TURN_TTL_SECONDS = 12 * 60 * 60;
+const MAX_TURN_TTL_SECONDS = 48 * 60 * 60;
+
+function readList(value: unknown): string[] {
+  return typeof value === 'string'
+    ? value.split(',').map((url) => url.trim()).filter(Boolean)
+    : [];
+}
+
+async function hmacSha1Base64(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return btoa(String.fromCharCode(...new Uint8Array(signature)));
+}
+
+export async function buildIceConfig(env: Record<string, unknown>, userId: string): Promise<IceConfigPayload> {
+  const stunUrls = readList(env.ICE_STUN_URLS);
+  const iceServers: IceServerConfig[] = [{ urls: stunUrls.length > 0 ? stunUrls : DEFAULT_STUN_URLS }];
+
+  const turnUrls = readList(env.ICE_TURN_URLS);
+  const secret = typeof env.ICE_TURN_SECRET === 'string' ? env.ICE_TURN_SECRET : '';
+  if (turnUrls.length === 0) {
+    return { iceServers, expiresAt: null };
+  }
+  if (!secret) {
+    console.warn('ICE_TURN_URLS is set without ICE_TURN_SECRET, leaving TURN out of the ICE config');
+    return { iceServers, expiresAt: null };
+  }
+
+  const ttlSeconds = Math.min(
+    MAX_TURN_TTL_SECONDS,
+    Number(env.ICE_TURN_TTL_SECONDS) > 0 ? Number(env.ICE_TURN_TTL_SECONDS) : DEFAULT_TURN_TTL_SECONDS
+  );
+  const expiresAtSeconds = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const username = `${expiresAtSeconds}:${userId}`;
+
+  iceServers.push({
+    urls: turnUrls,
+    username,
+    credential: await hmacSha1Base64(secret, username)
+  });
+
+  return { iceServers, expiresAt: expiresAtSeconds * 1000 };
+}
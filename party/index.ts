@@ -1,90 +1,151 @@
 import type * as Party from "partykit/server";
-
-interface Position {
-  x: number;
-  y: number;
+import { isValidRoomId } from "../src/lib/rooms";
+import {
+  getLayoutPreset,
+  getSeatFacing,
+  isInsideRoom,
+  summarizeLayout,
+  type Position,
+  type RoomLayout
+} from "../src/lib/layouts";
+import {
+  DEFAULT_ROOM_SETTINGS,
+  restoreRoomSettings,
+  roomSettingsFromQuery,
+  type RoomSettings
+} from "../src/lib/roomSettings";
+import { canHear } from "../src/lib/hearing";
+import { canModerate, canModerateUser } from "../src/lib/roles";
+import { buildIceConfig } from "./ice";
+import {
+  encodeMessage,
+  parseClientMessage,
+  type ChatLogEntry,
+  type ClientPayload,
+  type ErrorCode,
+  type RoomStatePayload,
+  type Seat,
+  type ServerMessage,
+  type SignalingMessage,
+  type User
+} from "../src/lib/protocol";
+
+// Everything that makes up a room's identity, saved under CONFIG_STORAGE_KEY
+interface StoredRoomConfig {
+  layout: RoomLayout;
+  settings: RoomSettings;
+  createdAt: number;
 }
 
-interface Seat {
-  id: string;
-  position: Position;
-  occupied: boolean;
-  userId?: string;
+const CONFIG_STORAGE_KEY = 'config';
+const CHAT_STORAGE_KEY = 'chat';
+const MAX_CHAT_LOG_LENGTH = 100;
+const CHAT_BACKLOG_WINDOW_MS = 15 * 60 * 1000; // Only replay the last 15 minutes
+const MAX_CHAT_BACKLOG_LENGTH = 50;
+const SEAT_RECLAIM_GRACE_MS = 30 * 1000; // How long a dropped user keeps their seat
+const MIN_MOVE_INTERVAL_MS = 50; // Free movement and turning updates arriving faster than this are held back
+const FREE_MOVE_BACKLOG_INTERVAL_MS = 5 * 1000; // Chat backlog while walking, at most this often
+
+// Compare without bailing out at the first difference, so response times don't leak the secret
+function secretsMatch(given: string, expected: string): boolean {
+  const a = new TextEncoder().encode(given);
+  const b = new TextEncoder().encode(expected);
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < b.length; i++) {
+    diff |= (a[i] ?? 0) ^ b[i];
+  }
+  return diff === 0;
 }
 
-interface User {
-  id: string;
-  name: string;
-  position: Position;
-  seatId?: string;
-  audioEnabled: boolean;
-}
+// PartyKit creates one SpatialAudioServer per Party.Room, so every room id
+// (e.g. /room/team-standup) gets its own seats, users and chat.
+export default class SpatialAudioServer implements Party.Server {
+  private users = new Map<string, User>();
+  private seats: Seat[] = [];
+  private layout: RoomLayout | null = null;
+  private settings: RoomSettings = { ...DEFAULT_ROOM_SETTINGS };
+  private createdAt = 0;
+  private chatLog: ChatLogEntry[] = [];
+  private sessionTokens = new Map<string, string>(); // token -> user id
+  private disconnectTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private lastMoveAt = new Map<string, number>();
+  private lastTurnAt = new Map<string, number>();
+  private pendingMoves = new Map<string, ReturnType<typeof setTimeout>>();
+  private pendingTurns = new Map<string, ReturnType<typeof setTimeout>>();
+  private lastBacklogAt = new Map<string, number>();
+
+  static onBeforeConnect(req: Party.Request, lobby: Party.Lobby) {
+    if (!isValidRoomId(lobby.id)) {
+      return new Response(`Invalid room id: ${lobby.id}`, { status: 400 });
+    }
+    return req;
+  }
 
-interface JoinPayload {
-  name: string;
-  seatId: string;
-}
+  constructor(readonly room: Party.Room) {}
 
-interface MovePayload {
-  seatId: string;
-}
+  // Restore the room after eviction or redeploy. Users are not restored:
+  // their connections are gone, so they rejoin and pick seats again.
+  async onStart() {
+    const config = await this.room.storage.get<StoredRoomConfig>(CONFIG_STORAGE_KEY);
+    if (config) {
+      this.applyLayout(config.layout);
+      this.settings = restoreRoomSettings(config.settings);
+      this.createdAt = config.createdAt;
+    }
 
-interface WebRTCPayload {
-  targetUserId: string;
-  fromUserId?: string;
-  offer?: RTCSessionDescriptionInit;
-  answer?: RTCSessionDescriptionInit;
-  candidate?: RTCIceCandidate;
-}
+    this.chatLog = (await this.room.storage.get<ChatLogEntry[]>(CHAT_STORAGE_KEY)) ?? [];
 
-interface ChatPayload {
-  message: string;
-}
+    console.log(`Room ${this.room.id} started: ${config ? `restored layout ${config.layout.id}` : 'new room'}, ${this.chatLog.length} chat messages`);
+  }
 
-interface MessageData {
-  type: 'join' | 'leave' | 'move' | 'audio_offer' | 'audio_answer' | 'ice_candidate' | 'toggle_audio' | 'chat';
-  payload?: JoinPayload | MovePayload | WebRTCPayload | ChatPayload;
-}
+  private applyLayout(layout: RoomLayout) {
+    // Rooms saved before acoustic zones or obstacles existed have none
+    this.layout = { ...layout, zones: layout.zones ?? [], obstacles: layout.obstacles ?? [] };
+    this.seats = layout.seats.map((seatDefinition) => ({
+      id: seatDefinition.id,
+      position: { ...seatDefinition.position },
+      label: seatDefinition.label,
+      tableId: seatDefinition.tableId,
+      occupied: false,
+      locked: false
+    }));
+  }
 
-export default class SpatialAudioServer implements Party.Server {
-  private users = new Map<string, User>();
-  private seats: Seat[] = [];
-  private readonly MAX_HEARING_DISTANCE = 80; // percentage - much larger hearing range
+  // The first connection creates the room, so its ?layout= and ?movement= query
+  // picks the layout and settings. Later connections join the room as it is.
+  private async initializeRoom(query: URLSearchParams) {
+    const layout = getLayoutPreset(query.get('layout'));
+    this.applyLayout(layout);
+    this.settings = roomSettingsFromQuery(query);
+    this.createdAt = Date.now();
 
-  constructor(readonly room: Party.Room) {
-    // Initialize a 4x4 grid of seats
-    this.initializeSeats();
+    await this.saveConfig();
+    console.log(`Room ${this.room.id} created with layout ${layout.id} (${layout.seats.length} seats)`, this.settings);
   }
 
-  private initializeSeats() {
-    const rows = 4;
-    const cols = 4;
-    
-    for (let row = 0; row < rows; row++) {
-      for (let col = 0; col < cols; col++) {
-        this.seats.push({
-          id: `seat-${row}-${col}`,
-          position: {
-            x: 20 + (col * 20), // 20%, 40%, 60%, 80%
-            y: 20 + (row * 20)  // 20%, 40%, 60%, 80%
-          },
-          occupied: false
-        });
-      }
-    }
+  private async saveConfig() {
+    if (!this.layout) return;
+
+    const config: StoredRoomConfig = {
+      layout: this.layout,
+      settings: this.settings,
+      createdAt: this.createdAt
+    };
+    await this.room.storage.put(CONFIG_STORAGE_KEY, config);
   }
 
-  private calculateDistance(pos1: Position, pos2: Position): number {
-    return Math.sqrt(Math.pow(pos2.x - pos1.x, 2) + Math.pow(pos2.y - pos1.y, 2));
+  // Same rules the client uses for audio gain and picking peers
+  private canHear(listener: Position, speaker: Position): boolean {
+    return canHear(listener, speaker, this.settings.attenuation, this.layout?.zones ?? []);
   }
 
   private getUsersInRange(user: User): User[] {
     const usersInRange: User[] = [];
     
     this.users.forEach((otherUser) => {
-      if (otherUser.id !== user.id && otherUser.audioEnabled) {
-        const distance = this.calculateDistance(user.position, otherUser.position);
-        if (distance <= this.MAX_HEARING_DISTANCE) {
+      // Muting your own mic doesn't stop you reading chat; the backlog follows the same rule
+      if (otherUser.id !== user.id) {
+        if (this.canHear(otherUser.position, user.position)) {
           usersInRange.push(otherUser);
         }
       }
@@ -93,81 +154,175 @@ export default class SpatialAudioServer implements Party.Server {
     return usersInRange;
   }
 
-  private broadcastRoomState() {
-    const roomState = {
+  private getRoomState(): RoomStatePayload {
+    return {
+      roomId: this.room.id,
+      layout: this.layout && summarizeLayout(this.layout),
+      settings: this.settings,
       seats: this.seats,
       users: Array.from(this.users.values())
     };
+  }
 
-    this.room.broadcast(JSON.stringify({
+  private broadcastRoomState() {
+    this.room.broadcast(encodeMessage({
       type: 'room_state',
-      payload: roomState
+      payload: this.getRoomState()
     }));
   }
 
-  onConnect(conn: Party.Connection) {
-    console.log(`User connected: ${conn.id}`);
+  private sendTo(userId: string, message: ServerMessage) {
+    this.room.getConnection(userId)?.send(encodeMessage(message));
+  }
+
+  private sendError(userId: string, code: ErrorCode, message: string) {
+    this.sendTo(userId, { type: 'error', payload: { code, message } });
+  }
+
+  async onConnect(conn: Party.Connection, ctx: Party.ConnectionContext) {
+    console.log(`User connected to room ${this.room.id}: ${conn.id}`);
+
+    if (!this.layout) {
+      await this.initializeRoom(new URL(ctx.request.url).searchParams);
+    }
     
     // Send current room state to new user
-    const roomState = {
-      seats: this.seats,
-      users: Array.from(this.users.values())
-    };
-
-    conn.send(JSON.stringify({
+    conn.send(encodeMessage({
       type: 'room_state',
-      payload: roomState
+      payload: this.getRoomState()
     }));
+
+    await this.sendIceConfig(conn.id);
   }
 
-  onMessage(message: string, sender: Party.Connection) {
-    try {
-      const data: MessageData = JSON.parse(message);
-      
-      switch (data.type) {
-        case 'join':
-          if (data.payload) {
-            this.handleUserJoin(sender.id, data.payload as JoinPayload);
-          }
-          break;
-
-        case 'move':
-          if (data.payload) {
-            this.handleUserMove(sender.id, data.payload as MovePayload);
-          }
-          break;
-
-        case 'audio_offer':
-        case 'audio_answer':
-        case 'ice_candidate':
-          this.handleWebRTCSignaling(sender.id, data);
-          break;
-
-        case 'toggle_audio':
-          this.handleToggleAudio(sender.id);
-          break;
-
-        case 'chat':
-          if (data.payload) {
-            this.handleChatMessage(sender.id, data.payload as ChatPayload);
-          }
-          break;
-      }
-    } catch (error) {
-      console.error('Error parsing message:', error);
+  private async sendIceConfig(connectionId: string) {
+    this.sendTo(connectionId, { type: 'ice_config', payload: await buildIceConfig(this.room.env, connectionId) });
+  }
+
+  async onMessage(message: string | ArrayBuffer | ArrayBufferView, sender: Party.Connection) {
+    const parsed = parseClientMessage(message);
+    if (!parsed.ok) {
+      console.warn(`Rejected message from ${sender.id}: ${parsed.error}`);
+      this.sendError(sender.id, parsed.code, parsed.error);
+      return;
+    }
+
+    const data = parsed.message;
+    const allowedBeforeJoin = data.type === 'join' || data.type === 'resume' || data.type === 'ice_config_request';
+    if (!allowedBeforeJoin && !this.users.has(sender.id)) {
+      console.warn(`${data.type} from ${sender.id} before joining`);
+      this.sendError(sender.id, 'not_joined', `Join the room before sending ${data.type}`);
+      return;
+    }
+
+    // A second join would take another seat and leave the first one held by nobody
+    if (data.type === 'join' && this.users.has(sender.id)) {
+      console.warn(`join from ${sender.id}, who is already in the room`);
+      this.sendError(sender.id, 'already_joined', 'Already in the room, leave before joining again');
+      return;
+    }
+
+    switch (data.type) {
+      case 'join':
+        this.handleUserJoin(sender.id, data.payload);
+        break;
+
+      case 'resume':
+        this.handleResume(sender.id, data.payload);
+        break;
+
+      case 'leave':
+        console.log(`User ${sender.id} left room ${this.room.id}`);
+        this.removeUser(sender.id);
+        break;
+
+      case 'ice_config_request':
+        await this.sendIceConfig(sender.id);
+        break;
+
+      case 'move':
+        this.handleUserMove(sender.id, data.payload);
+        break;
+
+      case 'move_to':
+        this.handleUserMoveTo(sender.id, data.payload);
+        break;
+
+      case 'set_facing':
+        this.handleSetFacing(sender.id, data.payload);
+        break;
+
+      case 'audio_offer':
+      case 'audio_answer':
+      case 'ice_candidate':
+      case 'audio_hangup':
+        this.handleWebRTCSignaling(sender.id, data);
+        break;
+
+      case 'set_audio':
+        this.handleSetAudio(sender.id, data.payload);
+        break;
+
+      case 'set_deafen':
+        this.handleSetDeafen(sender.id, data.payload);
+        break;
+
+      case 'set_link_quality':
+        this.handleSetLinkQuality(sender.id, data.payload);
+        break;
+
+      case 'set_transmit':
+        this.handleSetTransmit(sender.id, data.payload);
+        break;
+
+      case 'chat':
+        await this.handleChatMessage(sender.id, data.payload);
+        break;
+
+      case 'set_role':
+        this.handleSetRole(sender.id, data.payload);
+        break;
+
+      case 'kick':
+        this.handleKick(sender.id, data.payload);
+        break;
+
+      case 'force_mute':
+        this.handleForceMute(sender.id, data.payload);
+        break;
+
+      case 'move_user':
+        this.handleMoveUser(sender.id, data.payload);
+        break;
+
+      case 'set_seat_lock':
+        this.handleSetSeatLock(sender.id, data.payload);
+        break;
     }
   }
 
-  private handleUserJoin(userId: string, payload: JoinPayload) {
+  private handleUserJoin(userId: string, payload: ClientPayload<'join'>) {
     const seat = this.seats.find(s => s.id === payload.seatId);
     
     if (!seat || seat.occupied) {
-      this.room.getConnection(userId)?.send(JSON.stringify({
-        type: 'error',
-        payload: { message: 'Seat not available' }
-      }));
+      this.sendError(userId, 'seat_unavailable', 'Seat not available');
+      return;
+    }
+    if (seat.locked) {
+      this.sendError(userId, 'seat_unavailable', 'That seat is locked by a moderator');
+      return;
+    }
+
+    // Joining with the admin secret takes over the room; otherwise the first one in owns it
+    const isAdmin = payload.adminSecret !== undefined && this.isAdminSecret(payload.adminSecret);
+    if (payload.adminSecret !== undefined && !isAdmin) {
+      this.sendError(userId, 'forbidden', 'Wrong admin secret');
       return;
     }
+    const currentOwner = Array.from(this.users.values()).find(u => u.role === 'owner');
+    if (isAdmin && currentOwner) {
+      currentOwner.role = 'moderator';
+    }
 
     // Mark seat as occupied
     seat.occupied = true;
@@ -178,146 +333,490 @@ export default class SpatialAudioServer implements Party.Server {
       id: userId,
       name: payload.name,
       position: seat.position,
+      facing: this.getSeatFacing(seat),
       seatId: payload.seatId,
-      audioEnabled: true
+      audioEnabled: true,
+      deafened: false,
+      connected: true,
+      linkQuality: null,
+      transmitMode: 'open',
+      transmitting: true,
+      role: isAdmin || !currentOwner ? 'owner' : 'member',
+      forceMuted: false
     };
 
     this.users.set(userId, user);
+
+    const token = crypto.randomUUID();
+    this.sessionTokens.set(token, userId);
+    this.sendTo(userId, { type: 'session', payload: { token, user, resumed: false } });
+
+    this.broadcastRoomState();
+    this.sendChatBacklog(user);
+
+    console.log(`User ${payload.name} joined room ${this.room.id} as ${user.role} and took seat ${payload.seatId}`);
+  }
+
+  // ROOM_ADMIN_SECRET (`npx partykit env add ROOM_ADMIN_SECRET`) lets its holder own any room
+  private isAdminSecret(secret: string): boolean {
+    const expected = this.room.env.ROOM_ADMIN_SECRET;
+    return typeof expected === 'string' && expected !== '' && secretsMatch(secret, expected);
+  }
+
+  // A reconnecting client presents the token it got on join and gets its
+  // seat, name and mute state back, even if its connection id changed.
+  private handleResume(connectionId: string, payload: ClientPayload<'resume'>) {
+    const previousUserId = this.sessionTokens.get(payload.token);
+    const user = previousUserId ? this.users.get(previousUserId) : undefined;
+    if (!previousUserId || !user) {
+      this.sendError(connectionId, 'session_expired', 'Your seat was released, please pick a seat again');
+      return;
+    }
+
+    if (previousUserId !== connectionId && (this.room.getConnection(previousUserId) || this.users.has(connectionId))) {
+      this.sendError(connectionId, 'session_in_use', 'This session is already active in another tab');
+      return;
+    }
+
+    const timer = this.disconnectTimers.get(previousUserId);
+    if (timer) {
+      clearTimeout(timer);
+      this.disconnectTimers.delete(previousUserId);
+    }
+
+    if (previousUserId !== connectionId) {
+      // New connection id (e.g. page reload): move the user and their seat over to it
+      this.users.delete(previousUserId);
+      user.id = connectionId;
+      this.users.set(connectionId, user);
+      this.sessionTokens.set(payload.token, connectionId);
+
+      const seat = this.seats.find(s => s.id === user.seatId);
+      if (seat) {
+        seat.userId = connectionId;
+      }
+    }
+
+    user.connected = true;
+    user.linkQuality = null; // The client re-measures its links after reconnecting
+    this.sendTo(connectionId, { type: 'session', payload: { token: payload.token, user, resumed: true } });
     this.broadcastRoomState();
+    this.sendChatBacklog(user);
 
-    console.log(`User ${payload.name} joined and took seat ${payload.seatId}`);
+    console.log(`User ${user.name} resumed session in room ${this.room.id} (${previousUserId} -> ${connectionId})`);
   }
 
-  private handleUserMove(userId: string, payload: MovePayload) {
+  private handleUserMove(userId: string, payload: ClientPayload<'move'>) {
     const user = this.users.get(userId);
     if (!user) return;
 
     const newSeat = this.seats.find(s => s.id === payload.seatId);
     if (!newSeat || newSeat.occupied) {
-      this.room.getConnection(userId)?.send(JSON.stringify({
-        type: 'error',
-        payload: { message: 'Seat not available' }
-      }));
+      this.sendError(userId, 'seat_unavailable', 'Seat not available');
+      return;
+    }
+    if (newSeat.locked) {
+      this.sendError(userId, 'seat_unavailable', 'That seat is locked by a moderator');
       return;
     }
 
+    this.seatUser(user, newSeat);
+    this.broadcastRoomState();
+    this.sendChatBacklog(user);
+  }
+
+  private seatUser(user: User, seat: Seat) {
+    // A held-back free movement update would walk them straight out of the seat again
+    clearTimeout(this.pendingMoves.get(user.id));
+    this.pendingMoves.delete(user.id);
+
     // Free old seat
-    if (user.seatId) {
-      const oldSeat = this.seats.find(s => s.id === user.seatId);
-      if (oldSeat) {
-        oldSeat.occupied = false;
-        oldSeat.userId = undefined;
-      }
-    }
+    this.freeSeat(user);
 
     // Occupy new seat
-    newSeat.occupied = true;
-    newSeat.userId = userId;
+    seat.occupied = true;
+    seat.userId = user.id;
 
-    // Update user
-    user.position = newSeat.position;
-    user.seatId = payload.seatId;
+    // Update user, turning them toward their new table
+    user.position = seat.position;
+    user.facing = this.getSeatFacing(seat);
+    user.seatId = seat.id;
+  }
 
-    this.broadcastRoomState();
+  // Free movement: walk to any point in the room, leaving any seat behind
+  private handleUserMoveTo(userId: string, payload: ClientPayload<'move_to'>) {
+    const user = this.users.get(userId);
+    if (!user) return;
+
+    if (!this.settings.freeMovement) {
+      this.sendError(userId, 'movement_not_allowed', 'This room only allows moving between seats');
+      return;
+    }
+
+    if (!isInsideRoom(payload.position)) {
+      this.sendError(userId, 'out_of_bounds', 'Position is outside the room');
+      return;
+    }
+
+    this.throttle(user, this.lastMoveAt, this.pendingMoves, () => {
+      user.position = { ...payload.position };
+
+      if (user.seatId) {
+        // Seat occupancy changed, so everyone needs the full state
+        this.freeSeat(user);
+        this.broadcastRoomState();
+      } else {
+        this.broadcastUserMoved(user);
+      }
+
+      if (Date.now() - (this.lastBacklogAt.get(user.id) ?? 0) >= FREE_MOVE_BACKLOG_INTERVAL_MS) {
+        this.sendChatBacklog(user);
+      }
+    });
   }
 
-  private handleWebRTCSignaling(userId: string, data: MessageData) {
+  // Turning works in every room, seated or not
+  private handleSetFacing(userId: string, payload: ClientPayload<'set_facing'>) {
     const user = this.users.get(userId);
-    if (!user) {
-      console.warn(`WebRTC signaling from unknown user: ${userId}`);
+    if (!user) return;
+
+    this.throttle(user, this.lastTurnAt, this.pendingTurns, () => {
+      user.facing = payload.facing;
+      this.broadcastUserMoved(user);
+    });
+  }
+
+  // Apply at most one update per MIN_MOVE_INTERVAL_MS. One arriving too soon replaces
+  // any pending one and is applied when the interval is up, so the last position or
+  // facing of a drag or turn is never lost when the network bunches messages.
+  private throttle(
+    user: User,
+    lastAt: Map<string, number>,
+    pending: Map<string, ReturnType<typeof setTimeout>>,
+    apply: () => void
+  ) {
+    clearTimeout(pending.get(user.id));
+    pending.delete(user.id);
+
+    const wait = MIN_MOVE_INTERVAL_MS - (Date.now() - (lastAt.get(user.id) ?? 0));
+    if (wait <= 0) {
+      lastAt.set(user.id, Date.now());
+      apply();
+      return;
+    }
+
+    pending.set(user.id, setTimeout(() => {
+      pending.delete(user.id);
+      // They may have left, or resumed under a new connection id, in the meantime
+      if (this.users.get(user.id) !== user) return;
+      lastAt.set(user.id, Date.now());
+      apply();
+    }, wait));
+  }
+
+  private broadcastUserMoved(user: User) {
+    this.room.broadcast(encodeMessage({
+      type: 'user_moved',
+      payload: { userId: user.id, position: user.position, facing: user.facing }
+    }));
+  }
+
+  private getSeatFacing(seat: Seat): number {
+    return getSeatFacing(seat, this.layout?.tables ?? []);
+  }
+
+  private freeSeat(user: User) {
+    if (!user.seatId) return;
+
+    const seat = this.seats.find(s => s.id === user.seatId);
+    if (seat) {
+      seat.occupied = false;
+      seat.userId = undefined;
+    }
+    user.seatId = undefined;
+  }
+
+  // Offers, answers and ICE candidates go straight to the target regardless of
+  // range, so connections can be established before anyone moves
+  private handleWebRTCSignaling(userId: string, data: SignalingMessage) {
+    const targetUserId = data.payload.targetUserId;
+    if (!this.room.getConnection(targetUserId)) {
+      console.warn(`Target user ${targetUserId} not found for ${data.type}`);
       return;
     }
 
-    const webrtcPayload = data.payload as WebRTCPayload;
-    if (!webrtcPayload) return;
+    this.sendTo(targetUserId, this.relaySignal(data, userId));
+    console.log(`Forwarded ${data.type} from ${userId} to ${targetUserId}`);
+  }
 
+  // Spelled out per type so the relayed message is checked against ServerMessage
+  private relaySignal(data: SignalingMessage, fromUserId: string): ServerMessage {
+    const { targetUserId } = data.payload;
     switch (data.type) {
       case 'audio_offer':
-        // For offers, send directly to the target user regardless of range initially
-        // This ensures initial connection establishment
-        const targetConnection = this.room.getConnection(webrtcPayload.targetUserId);
-        if (targetConnection) {
-          targetConnection.send(JSON.stringify({
-            ...data,
-            payload: {
-              ...webrtcPayload,
-              fromUserId: userId
-            }
-          }));
-          console.log(`Forwarded audio offer from ${userId} to ${webrtcPayload.targetUserId}`);
-        } else {
-          console.warn(`Target user ${webrtcPayload.targetUserId} not found for audio offer`);
-        }
-        break;
-
+        return { type: data.type, payload: { targetUserId, fromUserId, offer: data.payload.offer } };
       case 'audio_answer':
+        return { type: data.type, payload: { targetUserId, fromUserId, answer: data.payload.answer } };
       case 'ice_candidate':
-        // For answers and ICE candidates, send directly to target
-        const answerTargetConnection = this.room.getConnection(webrtcPayload.targetUserId);
-        if (answerTargetConnection) {
-          answerTargetConnection.send(JSON.stringify({
-            ...data,
-            payload: {
-              ...webrtcPayload,
-              fromUserId: userId
-            }
-          }));
-          console.log(`Forwarded ${data.type} from ${userId} to ${webrtcPayload.targetUserId}`);
-        } else {
-          console.warn(`Target user ${webrtcPayload.targetUserId} not found for ${data.type}`);
-        }
-        break;
+        return { type: data.type, payload: { targetUserId, fromUserId, candidate: data.payload.candidate } };
+      case 'audio_hangup':
+        return { type: data.type, payload: { targetUserId, fromUserId } };
+    }
+  }
+
+  // Setting an explicit state (rather than toggling) makes duplicated or
+  // retried messages harmless
+  private handleSetAudio(userId: string, payload: ClientPayload<'set_audio'>) {
+    const user = this.users.get(userId);
+    if (!user) return;
+
+    // Nothing changed, or a moderator has them muted, but the sender may have missed our last update
+    if (user.audioEnabled === payload.enabled || (user.forceMuted && payload.enabled)) {
+      this.sendTo(userId, { type: 'room_state', payload: this.getRoomState() });
+      return;
     }
+
+    user.audioEnabled = payload.enabled;
+    this.broadcastRoomState();
   }
 
-  private handleToggleAudio(userId: string) {
+  private handleSetDeafen(userId: string, payload: ClientPayload<'set_deafen'>) {
     const user = this.users.get(userId);
     if (!user) return;
 
-    user.audioEnabled = !user.audioEnabled;
+    if (user.deafened === payload.deafened) {
+      this.sendTo(userId, { type: 'room_state', payload: this.getRoomState() });
+      return;
+    }
+
+    user.deafened = payload.deafened;
+    this.broadcastRoomState();
+  }
+
+  // Push-to-talk and voice activation flip this every few seconds, so it goes out as a
+  // small user_transmit instead of a full room_state
+  private handleSetTransmit(userId: string, payload: ClientPayload<'set_transmit'>) {
+    const user = this.users.get(userId);
+    if (!user || (user.transmitMode === payload.mode && user.transmitting === payload.transmitting)) return;
+
+    user.transmitMode = payload.mode;
+    user.transmitting = payload.transmitting;
+    this.room.broadcast(encodeMessage({
+      type: 'user_transmit',
+      payload: { userId, mode: user.transmitMode, transmitting: user.transmitting }
+    }));
+  }
+
+  // Clients only report changes, so there's nothing to resync when it's unchanged
+  private handleSetLinkQuality(userId: string, payload: ClientPayload<'set_link_quality'>) {
+    const user = this.users.get(userId);
+    if (!user || user.linkQuality === payload.quality) return;
+
+    user.linkQuality = payload.quality;
+    this.broadcastRoomState();
+  }
+
+  // Moderation messages name their target; the sender has to outrank them
+  private getModerationTarget(actorId: string, targetUserId: string): User | null {
+    const actor = this.users.get(actorId);
+    const target = this.users.get(targetUserId);
+    if (!actor) return null;
+
+    if (!target) {
+      this.sendError(actorId, 'unknown_user', 'That user is no longer in the room');
+      return null;
+    }
+    if (!canModerateUser(actor.role, target.role)) {
+      this.sendError(actorId, 'forbidden', `You can't moderate ${target.name}`);
+      return null;
+    }
+    return target;
+  }
+
+  private handleSetRole(userId: string, payload: ClientPayload<'set_role'>) {
+    if (this.users.get(userId)?.role !== 'owner') {
+      this.sendError(userId, 'forbidden', 'Only the room owner can change roles');
+      return;
+    }
+    const target = this.getModerationTarget(userId, payload.targetUserId);
+    if (!target || target.role === payload.role) return;
+
+    target.role = payload.role;
+    this.broadcastRoomState();
+    console.log(`${target.name} is now ${payload.role} in room ${this.room.id}`);
+  }
+
+  // Kicking frees the seat and voids the session token; they can still join again as someone new
+  private handleKick(userId: string, payload: ClientPayload<'kick'>) {
+    const target = this.getModerationTarget(userId, payload.targetUserId);
+    if (!target) return;
+
+    const byName = this.users.get(userId)?.name ?? 'A moderator';
+    this.sendTo(target.id, { type: 'kicked', payload: { byName } });
+    this.removeUser(target.id);
+    console.log(`${byName} kicked ${target.name} from room ${this.room.id}`);
+  }
+
+  private handleForceMute(userId: string, payload: ClientPayload<'force_mute'>) {
+    const target = this.getModerationTarget(userId, payload.targetUserId);
+    if (!target || target.forceMuted === payload.muted) return;
+
+    // Lifting it leaves them muted; they unmute themselves when they're ready
+    target.forceMuted = payload.muted;
+    if (payload.muted) {
+      target.audioEnabled = false;
+    }
+    this.broadcastRoomState();
+  }
+
+  private handleMoveUser(userId: string, payload: ClientPayload<'move_user'>) {
+    const target = this.getModerationTarget(userId, payload.targetUserId);
+    if (!target) return;
+
+    const seat = this.seats.find(s => s.id === payload.seatId);
+    if (!seat || seat.occupied) {
+      this.sendError(userId, 'seat_unavailable', 'Seat not available');
+      return;
+    }
+
+    this.seatUser(target, seat);
+    this.broadcastRoomState();
+    this.sendChatBacklog(target);
+  }
+
+  private handleSetSeatLock(userId: string, payload: ClientPayload<'set_seat_lock'>) {
+    const user = this.users.get(userId);
+    if (!user || !canModerate(user.role)) {
+      this.sendError(userId, 'forbidden', 'Only moderators can lock seats');
+      return;
+    }
+
+    const seat = this.seats.find(s => s.id === payload.seatId);
+    if (!seat) {
+      this.sendError(userId, 'seat_unavailable', 'Seat not found');
+      return;
+    }
+    if (seat.locked === payload.locked) return;
+
+    seat.locked = payload.locked;
     this.broadcastRoomState();
   }
 
-  private handleChatMessage(userId: string, payload: ChatPayload) {
+  private async handleChatMessage(userId: string, payload: ClientPayload<'chat'>) {
     const user = this.users.get(userId);
     if (!user) return;
 
+    const entry: ChatLogEntry = {
+      id: crypto.randomUUID(),
+      userId,
+      userName: user.name,
+      message: payload.message,
+      position: { ...user.position },
+      timestamp: Date.now()
+    };
+
     // Only send chat to users in range
     const usersInRange = this.getUsersInRange(user);
     
-    const chatData = {
+    const chatData: ServerMessage = {
       type: 'chat_message',
-      payload: {
-        userId,
-        userName: user.name,
-        message: payload.message,
-        position: user.position
-      }
+      payload: entry
     };
 
     usersInRange.forEach(targetUser => {
-      this.room.getConnection(targetUser.id)?.send(JSON.stringify(chatData));
+      this.sendTo(targetUser.id, chatData);
     });
 
     // Also send to sender
-    this.room.getConnection(userId)?.send(JSON.stringify(chatData));
+    this.sendTo(userId, chatData);
+
+    // Keep a bounded log so chat survives eviction and redeploys
+    this.chatLog.push(entry);
+    if (this.chatLog.length > MAX_CHAT_LOG_LENGTH) {
+      this.chatLog = this.chatLog.slice(-MAX_CHAT_LOG_LENGTH);
+    }
+    await this.room.storage.put(CHAT_STORAGE_KEY, this.chatLog);
   }
 
-  onClose(conn: Party.Connection) {
-    const user = this.users.get(conn.id);
-    if (user && user.seatId) {
-      // Free the seat
-      const seat = this.seats.find(s => s.id === user.seatId);
-      if (seat) {
-        seat.occupied = false;
-        seat.userId = undefined;
+  // Replay recent messages the user would have heard from where they are now,
+  // judged by where each sender was when they spoke.
+  private sendChatBacklog(user: User) {
+    this.lastBacklogAt.set(user.id, Date.now());
+
+    const since = Date.now() - CHAT_BACKLOG_WINDOW_MS;
+    const messages = this.chatLog
+      .filter(entry =>
+        entry.timestamp >= since &&
+        this.canHear(user.position, entry.position)
+      )
+      .slice(-MAX_CHAT_BACKLOG_LENGTH);
+
+    this.sendTo(user.id, {
+      type: 'chat_history',
+      payload: { messages }
+    });
+  }
+
+  private removeUser(userId: string) {
+    const user = this.users.get(userId);
+    if (user) {
+      this.freeSeat(user);
+    }
+
+    this.users.delete(userId);
+    if (user?.role === 'owner') {
+      this.handOverOwnership();
+    }
+    this.lastMoveAt.delete(userId);
+    this.lastTurnAt.delete(userId);
+    clearTimeout(this.pendingMoves.get(userId));
+    this.pendingMoves.delete(userId);
+    clearTimeout(this.pendingTurns.get(userId));
+    this.pendingTurns.delete(userId);
+    this.lastBacklogAt.delete(userId);
+    clearTimeout(this.disconnectTimers.get(userId));
+    this.disconnectTimers.delete(userId);
+    this.sessionTokens.forEach((tokenUserId, token) => {
+      if (tokenUserId === userId) {
+        this.sessionTokens.delete(token);
       }
+    });
+    this.broadcastRoomState();
+  }
+
+  // A moderator takes over if there is one, so the room is never left without an owner.
+  // Connected users come first; if only dropped users are left, one of them holds it and
+  // removeUser hands it on again when their grace period runs out.
+  private handOverOwnership() {
+    const users = Array.from(this.users.values());
+    const connected = users.filter(u => u.connected);
+    const nextOwner =
+      connected.find(u => u.role === 'moderator') ??
+      connected[0] ??
+      users.find(u => u.role === 'moderator') ??
+      users[0];
+    if (nextOwner) {
+      nextOwner.role = 'owner';
+      console.log(`${nextOwner.name} now owns room ${this.room.id}`);
     }
+  }
+
+  onClose(conn: Party.Connection) {
+    console.log(`User ${conn.id} disconnected from room ${this.room.id}`);
+
+    const user = this.users.get(conn.id);
+    if (!user) return;
 
-    this.users.delete(conn.id);
+    // PartySocket reconnects with the same id, sometimes before the old socket's close arrives
+    if (this.room.getConnection(conn.id)) return;
+
+    // Hold the seat so a quick reconnect can reclaim it with its session token
+    user.connected = false;
     this.broadcastRoomState();
-    
-    console.log(`User ${conn.id} disconnected`);
+    this.disconnectTimers.set(conn.id, setTimeout(() => {
+      console.log(`Releasing seat of ${user.name} after ${SEAT_RECLAIM_GRACE_MS}ms without reconnect`);
+      this.removeUser(user.id);
+    }, SEAT_RECLAIM_GRACE_MS));
   }
 }
 
@@ -0,0 +1,160 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { generateRoomId, normalizeRoomId } from "@/lib/rooms";
+import { DEFAULT_LAYOUT_ID, LAYOUT_PRESETS } from "@/lib/layouts";
+import { ATTENUATION_MODELS, DEFAULT_ATTENUATION, type AttenuationSettings } from "@/lib/attenuation";
+import { DEFAULT_ROOM_SETTINGS, MAX_PEERS_LIMIT } from "@/lib/roomSettings";
+
+export default function RoomLobby() {
+  const router = useRouter();
+  const [roomName, setRoomName] = useState("");
+  const [layoutId, setLayoutId] = useState(DEFAULT_LAYOUT_ID);
+  const [freeMovement, setFreeMovement] = useState(false);
+  const [attenuation, setAttenuation] = useState<AttenuationSettings>(DEFAULT_ATTENUATION);
+  const [maxPeers, setMaxPeers] = useState(DEFAULT_ROOM_SETTINGS.maxPeers);
+
+  const normalizedRoomName = normalizeRoomId(roomName);
+
+  const createRoom = () => {
+    const roomId = generateRoomId();
+    const query = new URLSearchParams({ layout: layoutId });
+    if (freeMovement) query.set("movement", "free");
+    // Only spell out falloff settings that differ from the defaults, to keep links short
+    if (attenuation.model !== DEFAULT_ATTENUATION.model) query.set("falloff", attenuation.model);
+    if (attenuation.refDistance !== DEFAULT_ATTENUATION.refDistance) query.set("ref", String(attenuation.refDistance));
+    if (attenuation.rolloff !== DEFAULT_ATTENUATION.rolloff) query.set("rolloff", String(attenuation.rolloff));
+    if (attenuation.maxRange !== DEFAULT_ATTENUATION.maxRange) query.set("range", String(attenuation.maxRange));
+    if (maxPeers !== DEFAULT_ROOM_SETTINGS.maxPeers) query.set("peers", String(maxPeers));
+
+    console.log(`🏠 Creating new room ${roomId} with ${query}`);
+    router.push(`/room/${roomId}?${query}`);
+  };
+
+  const enterRoom = () => {
+    if (!normalizedRoomName) return;
+    console.log(`🚪 Entering room ${normalizedRoomName}`);
+    router.push(`/room/${normalizedRoomName}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-white p-8">
+      <div className="max-w-xl mx-auto">
+        <h1 className="text-3xl font-bold mb-8 text-center text-black">Spatial Audio Chat</h1>
+
+        <div className="bg-white border-2 border-black rounded-lg p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4 text-black">Create a Room</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-4">
+            {LAYOUT_PRESETS.map((layout) => (
+              <button
+                key={layout.id}
+                onClick={() => setLayoutId(layout.id)}
+                className={`p-3 rounded-lg border-2 border-black text-left ${
+                  layoutId === layout.id ? "bg-blue-600 text-white" : "bg-white text-black hover:bg-gray-100"
+                }`}
+              >
+                <div className="font-bold">{layout.name}</div>
+                <div className="text-xs">{layout.description}</div>
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 mb-4 text-black font-medium">
+            <input type="checkbox" checked={freeMovement} onChange={(e) => setFreeMovement(e.target.checked)} />
+            Allow free movement (drag your avatar or use WASD to walk between seats)
+          </label>
+          <div className="mb-4">
+            <label className="block text-black font-medium mb-1">
+              Voice falloff
+              <select
+                value={attenuation.model}
+                onChange={(e) =>
+                  setAttenuation({ ...attenuation, model: e.target.value as AttenuationSettings["model"] })
+                }
+                className="w-full p-2 border-2 border-black rounded-lg text-black bg-white"
+              >
+                {ATTENUATION_MODELS.map((model) => (
+                  <option key={model.id} value={model.id}>
+                    {model.name}: {model.description}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {(
+                [
+                  ["refDistance", "Full volume within %"],
+                  ["rolloff", "Rolloff"],
+                  ["maxRange", "Hearing range %"],
+                ] as const
+              ).map(([key, label]) => (
+                <label key={key} className="block text-xs text-black font-medium">
+                  {label}
+                  <input
+                    type="number"
+                    min={key === "rolloff" ? 0.1 : 1}
+                    step={key === "rolloff" ? 0.1 : 1}
+                    value={attenuation[key]}
+                    disabled={key === "rolloff" && attenuation.model === "stepped"}
+                    onChange={(e) => setAttenuation({ ...attenuation, [key]: Number(e.target.value) })}
+                    className="w-full p-2 border-2 border-black rounded-lg text-black bg-white disabled:bg-gray-200"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+          <label className="block mb-4 text-black font-medium">
+            Max audio connections per person (nearest first)
+            <input
+              type="number"
+              min={1}
+              max={MAX_PEERS_LIMIT}
+              value={maxPeers}
+              onChange={(e) => setMaxPeers(Number(e.target.value))}
+              className="w-full p-2 border-2 border-black rounded-lg text-black bg-white"
+            />
+          </label>
+          <button
+            onClick={createRoom}
+            className="w-full px-4 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 border-2 border-black font-bold"
+          >
+            ➕ New Room
+          </button>
+          <p className="text-sm text-black mt-2 font-medium">
+            Creates a fresh room with its own seats and chat. Share the link to invite your team.
+          </p>
+        </div>
+
+        <div className="bg-white border-2 border-black rounded-lg p-6">
+          <h2 className="text-xl font-semibold mb-4 text-black">Join a Room</h2>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              placeholder="Room name"
+              value={roomName}
+              onChange={(e) => setRoomName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && enterRoom()}
+              className="flex-1 p-3 border-2 border-black rounded-lg text-black bg-white"
+            />
+            <button
+              onClick={enterRoom}
+              disabled={!normalizedRoomName}
+              className={`px-4 py-2 rounded-lg border-2 border-black font-bold ${
+                normalizedRoomName
+                  ? "bg-blue-600 hover:bg-blue-700 text-white"
+                  : "bg-gray-400 cursor-not-allowed text-white"
+              }`}
+            >
+              Enter
+            </button>
+          </div>
+          {roomName && normalizedRoomName !== roomName && (
+            <p className="text-xs text-black mt-2">
+              {normalizedRoomName ? `Room URL: /room/${normalizedRoomName}` : "Room names need at least one letter or number"}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,56 +1,461 @@
 "use client";
 
-import { useEffect, useState, useRef, useCallback } from "react";
+import { useEffect, useState, useRef, useCallback, useMemo } from "react";
 import PartySocket from "partysocket";
+import {
+  clampToRoom,
+  getSeatFacing,
+  normalizeFacing,
+  type LayoutSummary,
+  type Position,
+} from "@/lib/layouts";
+import { DEFAULT_ROOM_SETTINGS, type RoomSettings } from "@/lib/roomSettings";
+import { findZone, getZoneGain } from "@/lib/zones";
+import { getOcclusion } from "@/lib/occlusion";
+import { ATTENUATION_MODELS, getDistanceGain, getHearingRange } from "@/lib/attenuation";
+import { canHear, getDistance } from "@/lib/hearing";
+import { rateLinkQuality, summarizeLinkQuality, type LinkQuality } from "@/lib/linkQuality";
+import { canModerate, canModerateUser } from "@/lib/roles";
+import {
+  DEFAULT_PREFERENCES,
+  MAX_USER_VOLUME,
+  VAD_HANGOVER_RANGE_MS,
+  VAD_THRESHOLD_RANGE,
+  exportPreferences,
+  importPreferences,
+  type MicProcessing,
+  type Preferences,
+  type SpatialMode,
+} from "@/lib/preferences";
+import {
+  encodeMessage,
+  parseServerMessage,
+  MAX_NAME_LENGTH,
+  type ChatLogEntry,
+  type Seat,
+  type TransmitMode,
+  type User
+} from "@/lib/protocol";
 
-interface Position {
-  x: number;
-  y: number;
+interface RoomState {
+  layout: LayoutSummary | null;
+  settings: RoomSettings;
+  seats: Seat[];
+  users: User[];
 }
 
-interface Seat {
-  id: string;
-  position: Position;
-  occupied: boolean;
-  userId?: string;
+interface SpatialAudioChatProps {
+  roomId: string;
+  creationQuery?: string; // Layout and settings query string, only applied if this visit creates the room
 }
 
-interface User {
-  id: string;
-  name: string;
-  position: Position;
-  seatId?: string;
-  audioEnabled: boolean;
+interface ChatMessage extends ChatLogEntry {
+  isHistory?: boolean; // Sent before we joined or arrived in range, replayed by the server
 }
 
-interface RoomState {
-  seats: Seat[];
-  users: User[];
+// Perfect negotiation: either side may (re)negotiate at any time. On a collision
+// the impolite peer ignores the incoming offer and the polite one rolls back.
+interface NegotiationState {
+  polite: boolean;
+  makingOffer: boolean;
+  ignoreOffer: boolean; // Also silences ICE candidate errors for the offer we ignored
 }
 
 interface AudioConnection {
   userId: string;
   peerConnection: RTCPeerConnection;
+  negotiation: NegotiationState;
   audioElement: HTMLAudioElement;
   source?: MediaElementAudioSourceNode;
   gainNode?: GainNode;
   pannerNode?: PannerNode;
+  filterNode?: BiquadFilterNode; // Low-pass for voices heard through walls
+  analyserNode?: AnalyserNode; // Speaking detection, tapped off the source
   usingWebAudio: boolean;
   connectionType: 'spatial' | 'basic' | 'direct';
 }
 
-export default function SpatialAudioChat() {
+const SPATIAL_MODES: { id: SpatialMode; label: string }[] = [
+  { id: 'hrtf', label: '🎧 HRTF (headphones)' },
+  { id: 'equalpower', label: '🔈 Equal-power stereo' },
+  { id: 'mono', label: '🔉 Mono (volume only)' },
+];
+
+// The lower user id offers first (see the proximity effect), so it's the one that stands its ground
+function isPolitePeer(myId: string, peerId: string): boolean {
+  return myId > peerId;
+}
+
+// Route the filter through the panner, or straight to the gain for mono
+function applySpatialMode(connection: AudioConnection, mode: SpatialMode) {
+  const { filterNode, pannerNode, gainNode } = connection;
+  if (!filterNode || !pannerNode || !gainNode) return;
+
+  filterNode.disconnect();
+  if (mode === 'mono') {
+    filterNode.connect(gainNode);
+  } else {
+    pannerNode.panningModel = mode === 'hrtf' ? 'HRTF' : 'equalpower';
+    filterNode.connect(pannerNode);
+  }
+}
+
+// Make a peer connection send our live microphone track. Swapping the track on an
+// existing sender needs no renegotiation; adding a sender fires onnegotiationneeded.
+async function syncLocalTrack(pc: RTCPeerConnection, stream: MediaStream) {
+  const track = stream.getAudioTracks().find((t) => t.readyState === 'live');
+  if (!track || pc.signalingState === 'closed') return;
+
+  const sender = pc.getSenders().find((s) => s.track?.kind === 'audio');
+  if (!sender) {
+    pc.addTrack(track, stream);
+  } else if (sender.track !== track) {
+    await sender.replaceTrack(track);
+  }
+}
+
+// Stop playback and unhook a peer's audio graph, leaving the peer connection open
+function teardownAudioGraph(connection: AudioConnection) {
+  const { userId } = connection;
+
+  try {
+    // Pause and reset audio element
+    connection.audioElement.pause();
+    connection.audioElement.srcObject = null;
+    console.log(`✅ Audio element cleaned for ${userId}`);
+  } catch (error) {
+    console.error(`❌ Error cleaning audio element for ${userId}:`, error);
+  }
+
+  try {
+    // Disconnect Web Audio nodes
+    if (connection.source) {
+      connection.source.disconnect();
+      console.log(`✅ MediaElementSource disconnected for ${userId}`);
+    }
+    if (connection.filterNode) {
+      connection.filterNode.disconnect();
+      console.log(`✅ BiquadFilterNode disconnected for ${userId}`);
+    }
+    if (connection.pannerNode) {
+      connection.pannerNode.disconnect();
+      console.log(`✅ PannerNode disconnected for ${userId}`);
+    }
+    if (connection.gainNode) {
+      connection.gainNode.disconnect();
+      console.log(`✅ GainNode disconnected for ${userId}`);
+    }
+    if (connection.analyserNode) {
+      connection.analyserNode.disconnect();
+      console.log(`✅ AnalyserNode disconnected for ${userId}`);
+    }
+  } catch (error) {
+    console.error(`❌ Error disconnecting Web Audio nodes for ${userId}:`, error);
+  }
+}
+
+// Free movement tuning (room percentages and milliseconds)
+const MOVE_SEND_INTERVAL_MS = 100; // Rate limit for move_to while dragging or holding a key
+const MOVE_TARGET_TTL_MS = 500; // Keyboard steps build on our last target while the server catches up
+const KEYBOARD_STEP = 2;
+const AVATAR_GRAB_RADIUS = 6;
+const SEAT_SNAP_DISTANCE = 6;
+const GAIN_SMOOTHING_SECONDS = 0.05; // Time constant for gain ramps so walking doesn't crackle
+const UNFILTERED_CUTOFF_HZ = 20000; // Low-pass cutoff with nothing in the way (clamped to Nyquist)
+const TURN_STEP = 15; // Degrees per Q/E press or turn button click
+const BEHIND_GAIN = 0.7; // Voices directly behind you, ramping up to 1.0 straight ahead
+
+const MOVE_KEYS: Record<string, Position> = {
+  w: { x: 0, y: -1 },
+  a: { x: -1, y: 0 },
+  s: { x: 0, y: 1 },
+  d: { x: 1, y: 0 },
+  arrowup: { x: 0, y: -1 },
+  arrowleft: { x: -1, y: 0 },
+  arrowdown: { x: 0, y: 1 },
+  arrowright: { x: 1, y: 0 },
+};
+
+// Voices in front of the listener are clearer than those behind: 1.0 ahead, BEHIND_GAIN behind
+function calculateFacingGain(listener: Position, facing: number, speaker: Position): number {
+  const dx = speaker.x - listener.x;
+  const dy = speaker.y - listener.y;
+  if (dx === 0 && dy === 0) return 1;
+
+  const facingRadians = (facing * Math.PI) / 180;
+  const cosAngle = (dx * Math.sin(facingRadians) - dy * Math.cos(facingRadians)) / Math.hypot(dx, dy);
+  return BEHIND_GAIN + (1 - BEHIND_GAIN) * (1 + cosAngle) / 2;
+}
+
+// Volume labels in the user list by distance gain; on the default curve these are its 15/30/50% marks
+const VOLUME_BANDS: { minGain: number; label: string }[] = [
+  { minGain: 1, label: "🔊 Full" },
+  { minGain: 0.8, label: "🔉 High" },
+  { minGain: 0.4, label: "🔈 Medium" },
+];
+
+function describeVolume(gain: number): string {
+  const GAIN_EPSILON = 0.001; // The stepped curve lands on its marks with float error
+  return VOLUME_BANDS.find((band) => gain >= band.minGain - GAIN_EPSILON)?.label ?? "🔇 Low";
+}
+
+// Peer connections follow the hearing range instead of a full mesh
+const PEER_HYSTERESIS = 10; // Room % past the hearing range before an existing connection is dropped
+const PEER_RETRY_MS = 10000; // Wait before offering again to a peer that hung up on us
+
+// Recovering a dropped peer: wait out a blip, restart ICE, then rebuild the connection with backoff
+type PeerLinkStatus = 'reconnecting' | 'failed';
+
+interface PeerRecovery {
+  attempt: number; // Steps taken so far; 0 means still in the grace period
+  timer: ReturnType<typeof setTimeout> | null; // Null once we've given up
+}
+
+const DISCONNECT_GRACE_MS = 3000; // 'disconnected' often clears up by itself
+const RECOVERY_BASE_DELAY_MS = 4000; // Time each step gets to work, doubling per attempt
+const RECOVERY_MAX_DELAY_MS = 30000;
+const MAX_RECOVERY_ATTEMPTS = 5;
+
+// Connection stats polled from getStats() for the quality panel and signal bars
+interface PeerStats {
+  rttMs: number | null;
+  jitterMs: number | null;
+  packetLossPct: number | null; // Since the previous poll
+  bitrateKbps: number | null; // Incoming audio, since the previous poll
+  codec: string | null;
+  candidateType: string | null; // Our side of the selected pair: host, srflx, prflx or relay
+  quality: LinkQuality | null;
+}
+
+// Cumulative counters from the previous poll, turned into rates by the next one
+interface StatsSample {
+  timestamp: number;
+  bytesReceived: number;
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+const STATS_POLL_MS = 2000;
+
+async function collectPeerStats(
+  pc: RTCPeerConnection,
+  previous: StatsSample | undefined
+): Promise<{ stats: PeerStats; sample: StatsSample | null }> {
+  const report = await pc.getStats();
+
+  let inbound: RTCInboundRtpStreamStats | undefined;
+  let selectedPairId: string | undefined;
+  let nominatedPair: RTCIceCandidatePairStats | undefined;
+  let remoteRttSeconds: number | undefined;
+  report.forEach((entry) => {
+    if (entry.type === "inbound-rtp" && entry.kind === "audio") inbound = entry;
+    if (entry.type === "transport" && entry.selectedCandidatePairId) selectedPairId = entry.selectedCandidatePairId;
+    if (entry.type === "candidate-pair" && entry.nominated && entry.state === "succeeded") nominatedPair = entry;
+    if (entry.type === "remote-inbound-rtp" && typeof entry.roundTripTime === "number") remoteRttSeconds = entry.roundTripTime;
+  });
+
+  // Firefox has no transport stats, so fall back to the nominated pair
+  const pair: RTCIceCandidatePairStats | undefined = selectedPairId ? report.get(selectedPairId) : nominatedPair;
+  const rttSeconds = pair?.currentRoundTripTime ?? remoteRttSeconds;
+  const codecMimeType: string | undefined = inbound?.codecId ? report.get(inbound.codecId)?.mimeType : undefined;
+
+  const sample: StatsSample | null = inbound
+    ? {
+        timestamp: inbound.timestamp,
+        bytesReceived: inbound.bytesReceived ?? 0,
+        packetsReceived: inbound.packetsReceived ?? 0,
+        packetsLost: inbound.packetsLost ?? 0,
+      }
+    : null;
+
+  let packetLossPct: number | null = null;
+  let bitrateKbps: number | null = null;
+  // Counters going backwards mean the peer connection was rebuilt since the last poll
+  if (sample && previous && sample.timestamp > previous.timestamp && sample.bytesReceived >= previous.bytesReceived) {
+    const received = sample.packetsReceived - previous.packetsReceived;
+    const lost = Math.max(0, sample.packetsLost - previous.packetsLost);
+    packetLossPct = received + lost > 0 ? (100 * lost) / (received + lost) : null;
+    bitrateKbps = ((sample.bytesReceived - previous.bytesReceived) * 8) / (sample.timestamp - previous.timestamp);
+  }
+
+  const rttMs = rttSeconds !== undefined ? rttSeconds * 1000 : null;
+  const jitterMs = inbound?.jitter !== undefined ? inbound.jitter * 1000 : null;
+
+  return {
+    stats: {
+      rttMs,
+      jitterMs,
+      packetLossPct,
+      bitrateKbps,
+      codec: codecMimeType?.replace(/^audio\//, "") ?? null,
+      candidateType: pair ? report.get(pair.localCandidateId)?.candidateType ?? null : null,
+      quality: rateLinkQuality({ rttMs, jitterMs, packetLossPct }),
+    },
+    sample,
+  };
+}
+
+function formatStat(value: number | null, unit: string, digits = 0): string {
+  return value === null ? "–" : `${value.toFixed(digits)}${unit}`;
+}
+
+// Transmit modes decide when an unmuted mic actually sends sound
+const TRANSMIT_MODES: { id: TransmitMode; label: string }[] = [
+  { id: 'open', label: '🎙️ Open mic' },
+  { id: 'push_to_talk', label: '📻 Push to talk' },
+  { id: 'voice_activation', label: '〰️ Voice activation' },
+];
+
+const VAD_POLL_MS = 50;
+
+// Keys that already move or turn us, plus the ones that cancel capture or move focus
+const RESERVED_KEY_CODES = new Set([
+  "KeyW", "KeyA", "KeyS", "KeyD", "KeyQ", "KeyE",
+  "ArrowUp", "ArrowDown", "ArrowLeft", "ArrowRight",
+  "Escape", "Tab",
+]);
+
+function formatKeyCode(code: string): string {
+  return code.replace(/^(Key|Digit)/, "");
+}
+
+const MIC_PROCESSING_OPTIONS: { id: keyof MicProcessing; label: string }[] = [
+  { id: 'echoCancellation', label: 'Echo cancellation' },
+  { id: 'noiseSuppression', label: 'Noise suppression' },
+  { id: 'autoGainControl', label: 'Auto gain' },
+];
+
+// A null device id means the system default
+async function getMicrophoneStream(deviceId: string | null, processing: MicProcessing): Promise<MediaStream> {
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      audio: { ...processing, ...(deviceId ? { deviceId: { exact: deviceId } } : {}) },
+    });
+  } catch (error) {
+    // The chosen mic may have been unplugged; the default beats no mic at all
+    if (deviceId && error instanceof DOMException && (error.name === "OverconstrainedError" || error.name === "NotFoundError")) {
+      console.warn(`⚠️ Microphone ${deviceId} unavailable, using the default`);
+      return navigator.mediaDevices.getUserMedia({ audio: { ...processing } });
+    }
+    throw error;
+  }
+}
+
+// setSinkId is on audio elements in most browsers, but on AudioContext only in Chromium
+type SinkTarget = { setSinkId?: (sinkId: string) => Promise<void> };
+
+async function applySink(target: SinkTarget, deviceId: string | null) {
+  await target.setSinkId?.(deviceId ?? "");
+}
+
+// Active speaker detection
+const SPEAKING_LEVEL = 8; // Analyser level (0-100, as on the mic meter) that counts as talking
+const SPEAKING_HOLD_MS = 400; // Pauses between words shorter than this keep the speaker lit
+const SPEAKER_POLL_MS = 100;
+const RECENT_SPEAKERS_LIMIT = 5;
+
+// Average frequency magnitude as 0-100, the same measure the live mic meter shows
+function getAnalyserLevel(analyser: AnalyserNode): number {
+  const data = new Uint8Array(analyser.frequencyBinCount);
+  analyser.getByteFrequencyData(data);
+  return (data.reduce((sum, value) => sum + value, 0) / data.length / 255) * 100;
+}
+
+// Used until the server sends its ICE config, which may add TURN
+const DEFAULT_ICE_SERVERS: RTCIceServer[] = [{ urls: "stun:stun.l.google.com:19302" }];
+const ICE_REFRESH_FRACTION = 0.8; // Ask for new TURN credentials this far into their lifetime
+// Bounds on that wait: no request loop if credentials are (nearly) expired, and below setTimeout's limit
+const ICE_REFRESH_RANGE_MS = { min: 30 * 1000, max: 24 * 60 * 60 * 1000 };
+
+// How often to re-send our mute state while the server's room_state disagrees with it
+const AUDIO_SYNC_RETRY_MS = 2000;
+
+// Session tokens live in sessionStorage so a reload of this tab reclaims its seat,
+// while a second tab in the same room joins as a new user
+const SESSION_STORAGE_PREFIX = "koolertawk:session:";
+
+function loadSessionToken(roomId: string): string | null {
+  try {
+    return sessionStorage.getItem(SESSION_STORAGE_PREFIX + roomId);
+  } catch {
+    return null;
+  }
+}
+
+function saveSessionToken(roomId: string, token: string | null) {
+  try {
+    if (token) {
+      sessionStorage.setItem(SESSION_STORAGE_PREFIX + roomId, token);
+    } else {
+      sessionStorage.removeItem(SESSION_STORAGE_PREFIX + roomId);
+    }
+  } catch (error) {
+    console.warn("⚠️ Could not store session token:", error);
+  }
+}
+
+// Preferences belong to the browser rather than a room, so they go in localStorage
+const PREFERENCES_STORAGE_KEY = "koolertawk:preferences";
+
+function loadPreferences(): Preferences {
+  try {
+    const stored = localStorage.getItem(PREFERENCES_STORAGE_KEY);
+    return (stored && importPreferences(stored)) || DEFAULT_PREFERENCES;
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+}
+
+function savePreferences(preferences: Preferences) {
+  try {
+    localStorage.setItem(PREFERENCES_STORAGE_KEY, exportPreferences(preferences));
+  } catch (error) {
+    console.warn("⚠️ Could not store preferences:", error);
+  }
+}
+
+export default function SpatialAudioChat({ roomId, creationQuery }: SpatialAudioChatProps) {
   const [socket, setSocket] = useState<PartySocket | null>(null);
-  const [roomState, setRoomState] = useState<RoomState>({ seats: [], users: [] });
+  const [roomState, setRoomState] = useState<RoomState>({
+    layout: null,
+    settings: DEFAULT_ROOM_SETTINGS,
+    seats: [],
+    users: [],
+  });
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [userName, setUserName] = useState("");
+  const [adminSecret, setAdminSecret] = useState(""); // Not saved with preferences
   const [isJoined, setIsJoined] = useState(false);
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
   const [audioEnabled, setAudioEnabled] = useState(true);
-  const [chatMessages, setChatMessages] = useState<
-    Array<{ userId: string; userName: string; message: string; position: Position }>
-  >([]);
+  const [deafened, setDeafened] = useState(false);
+  const [audioSyncStalled, setAudioSyncStalled] = useState(false);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [chatInput, setChatInput] = useState("");
+  const [dragPosition, setDragPosition] = useState<Position | null>(null); // Local preview only, the server owns positions
+  const [spatialMode, setSpatialMode] = useState<SpatialMode>('hrtf');
+  const [peerLinkStatus, setPeerLinkStatus] = useState<Record<string, PeerLinkStatus>>({}); // Only peers that are recovering or failed
+  const [peerStats, setPeerStats] = useState<Record<string, PeerStats>>({}); // Connected peers only
+  const [showStats, setShowStats] = useState(false);
+  const [speakingUserIds, setSpeakingUserIds] = useState<Set<string>>(new Set());
+  const [transmitMode, setTransmitMode] = useState<TransmitMode>('open');
+  const [transmitting, setTransmitting] = useState(true); // Transmit gate: key held, voice detected, or open mic
+  const [pttKey, setPttKey] = useState(DEFAULT_PREFERENCES.pttKey);
+  const [capturingPttKey, setCapturingPttKey] = useState(false);
+  const [vadThreshold, setVadThreshold] = useState(DEFAULT_PREFERENCES.vadThreshold);
+  const [vadHangoverMs, setVadHangoverMs] = useState(DEFAULT_PREFERENCES.vadHangoverMs);
+  const [showDevices, setShowDevices] = useState(false);
+  const [inputDevices, setInputDevices] = useState<MediaDeviceInfo[]>([]);
+  const [outputDevices, setOutputDevices] = useState<MediaDeviceInfo[]>([]);
+  const [outputSelectionSupported, setOutputSelectionSupported] = useState(false);
+  const [inputDeviceId, setInputDeviceId] = useState<string | null>(null); // Null: system default
+  const [outputDeviceId, setOutputDeviceId] = useState<string | null>(null);
+  const [micProcessing, setMicProcessing] = useState<MicProcessing>(DEFAULT_PREFERENCES.micProcessing);
+  const [masterVolume, setMasterVolume] = useState(DEFAULT_PREFERENCES.masterVolume); // Percent
+  const [userVolumes, setUserVolumes] = useState<Record<string, number>>({}); // Percent, by display name
+  const [mutedUserNames, setMutedUserNames] = useState<string[]>([]); // Muted for us only
+  const [peerRetryTick, setPeerRetryTick] = useState(0); // Bumped when a declined peer may be offered again
+  const [recentSpeakers, setRecentSpeakers] = useState<{ userId: string; lastSpokeAt: number }[]>([]); // Most recent first
 
   // Audio testing states
   const [testStream, setTestStream] = useState<MediaStream | null>(null);
@@ -72,17 +477,83 @@ export default function SpatialAudioChat() {
   // Live mic monitoring refs
   const liveMicAnalyserRef = useRef<AnalyserNode | null>(null);
   const liveMicAnimationFrameRef = useRef<number | null>(null);
+  const liveMicMonitorStreamRef = useRef<MediaStream | null>(null); // Cloned tracks, still audible while the real track is gated
 
   // Refs to prevent stale closures in WebSocket handlers
   const currentUserRef = useRef<User | null>(null);
   const isJoinedRef = useRef<boolean>(false);
   const audioEnabledRef = useRef<boolean>(true);
+  const deafenedRef = useRef<boolean>(false);
+  const spatialModeRef = useRef<SpatialMode>('hrtf');
+  const localStreamRef = useRef<MediaStream | null>(null);
+  const transmitModeRef = useRef<TransmitMode>('open');
+  const transmitGateRef = useRef(true);
+  const inputDeviceIdRef = useRef<string | null>(null);
+  const outputDeviceIdRef = useRef<string | null>(null);
+  const micProcessingRef = useRef<MicProcessing>(DEFAULT_PREFERENCES.micProcessing);
+  const preferencesLoadedRef = useRef(false); // Don't overwrite stored preferences with defaults before loading them
+  const preferencesFileInputRef = useRef<HTMLInputElement | null>(null);
 
   // Stable reference for spatial settings function
   const applySpatialSettingsRef = useRef<(() => void) | null>(null);
 
+  // ICE servers from the server (TURN credentials expire, so they're refreshed on a timer)
+  const iceServersRef = useRef<RTCIceServer[]>(DEFAULT_ICE_SERVERS);
+  const iceRefreshTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Latest room state for the signaling handler, and peers that recently hung up on us
+  const roomStateRef = useRef<RoomState>(roomState);
+  const declinedPeersRef = useRef<Map<string, number>>(new Map());
+
+  // Connection recovery per peer, kept across rebuilt peer connections
+  const recoveryRef = useRef<Map<string, PeerRecovery>>(new Map());
+  const startRecoveryRef = useRef<((userId: string, failed: boolean) => void) | null>(null);
+  const runRecoveryStepRef = useRef<((userId: string) => Promise<void>) | null>(null);
+
+  // Stats counters per peer, and the link quality summary as last computed and as last sent
+  const statsSamplesRef = useRef<Map<string, StatsSample>>(new Map());
+  const lastQualitySummaryRef = useRef<LinkQuality | null>(null);
+  const reportedQualityRef = useRef<LinkQuality | null>(null);
+
+  // Latest resumeSession, called from the socket handler registered on mount
+  const resumeSessionRef = useRef<((user: User) => Promise<void>) | null>(null);
+
+  // Free movement: the map element, the drag in progress and the throttled move_to target
+  const seatMapRef = useRef<HTMLDivElement | null>(null);
+  const draggingPointerRef = useRef<number | null>(null);
+  const moveTargetRef = useRef<Position | null>(null);
+  const lastMoveSentAtRef = useRef(0);
+  const pendingMoveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Turning: same throttling as movement, for set_facing
+  const facingTargetRef = useRef<number | null>(null);
+  const lastFacingSentAtRef = useRef(0);
+  const pendingFacingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const setLinkStatus = useCallback((userId: string, status: PeerLinkStatus | null) => {
+    setPeerLinkStatus((prev) => {
+      if ((prev[userId] ?? null) === status) return prev;
+      const next = { ...prev };
+      if (status) {
+        next[userId] = status;
+      } else {
+        delete next[userId];
+      }
+      return next;
+    });
+  }, []);
+
+  const clearRecovery = useCallback((userId: string) => {
+    const recovery = recoveryRef.current.get(userId);
+    if (recovery?.timer) clearTimeout(recovery.timer);
+    recoveryRef.current.delete(userId);
+    setLinkStatus(userId, null);
+  }, [setLinkStatus]);
+
   // Cleanup function for audio connections
   const cleanupAudioConnection = useCallback((userId: string, reason: string) => {
+    clearRecovery(userId);
+
     const connection = audioConnectionsRef.current.get(userId);
     if (!connection) {
       console.log(`⚠️ No connection to cleanup for ${userId}`);
@@ -91,32 +562,7 @@ export default function SpatialAudioChat() {
 
     console.log(`🧹 Cleaning up audio connection for ${userId}: ${reason}`);
 
-    try {
-      // Pause and reset audio element
-      connection.audioElement.pause();
-      connection.audioElement.srcObject = null;
-      console.log(`✅ Audio element cleaned for ${userId}`);
-    } catch (error) {
-      console.error(`❌ Error cleaning audio element for ${userId}:`, error);
-    }
-
-    try {
-      // Disconnect Web Audio nodes
-      if (connection.source) {
-        connection.source.disconnect();
-        console.log(`✅ MediaElementSource disconnected for ${userId}`);
-      }
-      if (connection.pannerNode) {
-        connection.pannerNode.disconnect();
-        console.log(`✅ PannerNode disconnected for ${userId}`);
-      }
-      if (connection.gainNode) {
-        connection.gainNode.disconnect();
-        console.log(`✅ GainNode disconnected for ${userId}`);
-      }
-    } catch (error) {
-      console.error(`❌ Error disconnecting Web Audio nodes for ${userId}:`, error);
-    }
+    teardownAudioGraph(connection);
 
     try {
       // Close peer connection
@@ -129,7 +575,7 @@ export default function SpatialAudioChat() {
     // Remove from map
     audioConnectionsRef.current.delete(userId);
     console.log(`✅ Connection removed from map for ${userId}`);
-  }, []);
+  }, [clearRecovery]);
 
   // Keep refs in sync with state
   useEffect(() => {
@@ -144,6 +590,67 @@ export default function SpatialAudioChat() {
     audioEnabledRef.current = audioEnabled;
   }, [audioEnabled]);
 
+  useEffect(() => {
+    deafenedRef.current = deafened;
+  }, [deafened]);
+
+  // Re-route every peer when the stereo mode changes; new peers read the ref
+  useEffect(() => {
+    spatialModeRef.current = spatialMode;
+    audioConnectionsRef.current.forEach((connection) => {
+      if (connection.connectionType === 'spatial') {
+        applySpatialMode(connection, spatialMode);
+      }
+    });
+    console.log(`🎧 Spatial mode set to ${spatialMode}`);
+  }, [spatialMode]);
+
+  useEffect(() => {
+    localStreamRef.current = localStream;
+  }, [localStream]);
+
+  // Our mute and deafen intent is what we act on; the server's copy arrives
+  // in room_state. While they disagree, keep re-sending the intent.
+  const audioStateMismatch =
+    isJoined &&
+    currentUser !== null &&
+    (currentUser.audioEnabled !== audioEnabled || currentUser.deafened !== deafened);
+
+  useEffect(() => {
+    if (!audioStateMismatch || !socket) return;
+
+    const interval = setInterval(() => {
+      console.warn("⚠️ Server disagrees with our mute/deafen state, re-sending it");
+      setAudioSyncStalled(true);
+      socket.send(encodeMessage({ type: "set_audio", payload: { enabled: audioEnabledRef.current } }));
+      socket.send(encodeMessage({ type: "set_deafen", payload: { deafened: deafenedRef.current } }));
+    }, AUDIO_SYNC_RETRY_MS);
+
+    return () => {
+      clearInterval(interval);
+      setAudioSyncStalled(false);
+    };
+  }, [audioStateMismatch, socket]);
+
+  // Drop everything tied to our seat and go back to the seat picker
+  const resetToJoinScreen = useCallback((reason: string) => {
+    console.log(`🚪 Returning to join screen: ${reason}`);
+
+    Array.from(audioConnectionsRef.current.keys()).forEach((userId) => {
+      cleanupAudioConnection(userId, reason);
+    });
+
+    declinedPeersRef.current.clear();
+
+    localStreamRef.current?.getTracks().forEach((track) => track.stop());
+    localStreamRef.current = null;
+    setLocalStream(null);
+    setCurrentUser(null);
+    setIsJoined(false);
+    setAudioEnabled(true);
+    setDeafened(false);
+  }, [cleanupAudioConnection]);
+
   // Coordinate conversion: room percentages (0-100) to 3D meters
   const roomToMeters = useCallback((roomPos: Position): { x: number; y: number; z: number } => {
     // Map 100% room to ±10 meters, center at origin
@@ -152,8 +659,8 @@ export default function SpatialAudioChat() {
     return { x, y: 0, z }; // Keep y=0 for 2D room on ground plane
   }, []);
 
-  // Update AudioListener position when current user moves
-  const updateListenerPosition = useCallback((userPosition: Position) => {
+  // Update AudioListener position and orientation when current user moves or turns
+  const updateListenerPosition = useCallback((userPosition: Position, facing: number) => {
     if (!audioContextRef.current) {
       console.warn("⚠️ Cannot update listener position: no audio context");
       return;
@@ -163,18 +670,27 @@ export default function SpatialAudioChat() {
     const coords3D = roomToMeters(userPosition);
     const currentTime = audioContextRef.current.currentTime;
 
+    // Facing 0 is the top of the map, which roomToMeters puts at negative Z
+    const facingRadians = (facing * Math.PI) / 180;
+    const forward = { x: Math.sin(facingRadians), z: -Math.cos(facingRadians) };
+
     try {
       if (listener.positionX) {
         // Modern AudioParam approach
         listener.positionX.setValueAtTime(coords3D.x, currentTime);
         listener.positionY.setValueAtTime(coords3D.y, currentTime);
         listener.positionZ.setValueAtTime(coords3D.z, currentTime);
-        console.log(`🎧 AudioListener moved to (${coords3D.x.toFixed(2)}, ${coords3D.y.toFixed(2)}, ${coords3D.z.toFixed(2)})`);
+        listener.forwardX.setValueAtTime(forward.x, currentTime);
+        listener.forwardY.setValueAtTime(0, currentTime);
+        listener.forwardZ.setValueAtTime(forward.z, currentTime);
+        console.log(`🎧 AudioListener moved to (${coords3D.x.toFixed(2)}, ${coords3D.y.toFixed(2)}, ${coords3D.z.toFixed(2)}) facing ${facing}°`);
       } else {
         // Legacy fallback
         try {
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
           (listener as any).setPosition?.(coords3D.x, coords3D.y, coords3D.z);
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          (listener as any).setOrientation?.(forward.x, 0, forward.z, 0, 1, 0);
           console.log(`🎧 AudioListener moved to (${coords3D.x.toFixed(2)}, ${coords3D.y.toFixed(2)}, ${coords3D.z.toFixed(2)}) [legacy]`);
         } catch (legacyError) {
           console.warn("⚠️ Legacy listener position update failed:", legacyError);
@@ -224,6 +740,14 @@ export default function SpatialAudioChat() {
         console.warn("⚠️ Failed to configure AudioListener:", listenerError);
         console.log("📻 Falling back to basic audio context");
       }
+
+      if (outputDeviceIdRef.current) {
+        try {
+          await applySink(audioContextRef.current as unknown as SinkTarget, outputDeviceIdRef.current);
+        } catch (error) {
+          console.warn("⚠️ Could not route audio to the chosen output, using the default:", error);
+        }
+      }
     }
 
     if (audioContextRef.current.state === "suspended") {
@@ -243,7 +767,7 @@ export default function SpatialAudioChat() {
   // Audio testing functions
   const startMicTest = useCallback(async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const stream = await getMicrophoneStream(inputDeviceIdRef.current, micProcessingRef.current);
       setTestStream(stream);
 
       await initializeAudioContext();
@@ -331,6 +855,7 @@ export default function SpatialAudioChat() {
     };
 
     setIsPlayingTest(true);
+    applySink(audio, outputDeviceIdRef.current).catch(() => { /* default output */ });
     audio.play();
     testAudioRef.current = audio;
     console.log("Playing back recording");
@@ -371,7 +896,10 @@ export default function SpatialAudioChat() {
       if (!audioContextRef.current || !stream.active) return;
 
       try {
-        const source = audioContextRef.current.createMediaStreamSource(stream);
+        // Meter a clone: voice activation has to hear us while the track we send is disabled
+        const monitorStream = new MediaStream(stream.getAudioTracks().map((track) => track.clone()));
+        liveMicMonitorStreamRef.current = monitorStream;
+        const source = audioContextRef.current.createMediaStreamSource(monitorStream);
         const analyser = audioContextRef.current.createAnalyser();
         analyser.fftSize = 256;
         analyser.smoothingTimeConstant = 0.8;
@@ -407,6 +935,8 @@ export default function SpatialAudioChat() {
       liveMicAnimationFrameRef.current = null;
     }
     liveMicAnalyserRef.current = null;
+    liveMicMonitorStreamRef.current?.getTracks().forEach((track) => track.stop());
+    liveMicMonitorStreamRef.current = null;
     setLiveMicLevel(0);
     console.log("Stopped live microphone monitoring");
   }, []);
@@ -424,31 +954,91 @@ export default function SpatialAudioChat() {
     };
   }, [localStream, isJoined, audioEnabled, startLiveMicMonitoring, stopLiveMicMonitoring]);
 
-  const calculateSpatialGain = useCallback((userPos: Position, otherPos: Position): number => {
-    const distance = Math.sqrt(Math.pow(otherPos.x - userPos.x, 2) + Math.pow(otherPos.y - userPos.y, 2));
-    const maxDistance = 80; // percentage units - much larger range
-
-    if (distance >= maxDistance) return 0;
-
-    // Multiple volume zones for better spatial experience
-    if (distance <= 15) {
-      // Very close - full volume
-      return 1.0;
-    } else if (distance <= 30) {
-      // Close - high volume (80-100%)
-      return 0.8 + 0.2 * (1 - (distance - 15) / 15);
-    } else if (distance <= 50) {
-      // Medium distance - medium volume (40-80%)
-      return 0.4 + 0.4 * (1 - (distance - 30) / 20);
-    } else {
-      // Far but audible - low volume (0-40%)
-      return 0.4 * (1 - (distance - 50) / 30);
-    }
-  }, []);
+  // Active speakers: every peer's analyser plus our own mic meter. A speaker stays lit for
+  // SPEAKING_HOLD_MS after their last loud sample, and starting or stopping bumps them to the
+  // top of the recent speakers list.
+  useEffect(() => {
+    if (!isJoined) return;
+
+    const lastVoiceAt = new Map<string, number>();
+    let speaking = new Set<string>();
+
+    const interval = setInterval(() => {
+      const now = Date.now();
+      audioConnectionsRef.current.forEach((connection, userId) => {
+        if (connection.analyserNode && getAnalyserLevel(connection.analyserNode) >= SPEAKING_LEVEL) {
+          lastVoiceAt.set(userId, now);
+        }
+      });
+      const me = currentUserRef.current;
+      if (me && liveMicAnalyserRef.current && audioEnabledRef.current && transmitGateRef.current && getAnalyserLevel(liveMicAnalyserRef.current) >= SPEAKING_LEVEL) {
+        lastVoiceAt.set(me.id, now);
+      }
+
+      const nowSpeaking = new Set(
+        Array.from(lastVoiceAt.entries())
+          .filter(([, at]) => now - at <= SPEAKING_HOLD_MS)
+          .map(([userId]) => userId)
+      );
+      const changed = Array.from(new Set([...speaking, ...nowSpeaking])).filter(
+        (userId) => speaking.has(userId) !== nowSpeaking.has(userId)
+      );
+      if (changed.length === 0) return;
+
+      speaking = nowSpeaking;
+      setSpeakingUserIds(nowSpeaking);
+      setRecentSpeakers((prev) =>
+        [
+          ...changed.map((userId) => ({ userId, lastSpokeAt: now })),
+          ...prev.filter((entry) => !changed.includes(entry.userId)),
+        ].slice(0, RECENT_SPEAKERS_LIMIT)
+      );
+    }, SPEAKER_POLL_MS);
+
+    return () => {
+      clearInterval(interval);
+      setSpeakingUserIds(new Set());
+      setRecentSpeakers([]);
+    };
+  }, [isJoined]);
 
-  // Simple spatial audio update - just distance-based gain for now
-  // TODO: Re-add positional audio after basic playback is stable
+  // Nearest users within hearing range, up to the room's peer cap. Existing connections (and
+  // an incoming offer being considered) get PEER_HYSTERESIS of slack so the edge doesn't flap.
+  const getDesiredPeers = useCallback((state: RoomState, me: User, offeringUserId?: string): User[] => {
+    const { attenuation, maxPeers } = state.settings;
+    const zones = state.layout?.zones ?? [];
+    const now = Date.now();
+
+    return state.users
+      .filter((user) => {
+        if (user.id === me.id) return false;
+        if (audioConnectionsRef.current.has(user.id) || user.id === offeringUserId) {
+          return canHear(me.position, user.position, attenuation, zones, PEER_HYSTERESIS);
+        }
+        const declinedAt = declinedPeersRef.current.get(user.id);
+        return (
+          user.connected &&
+          (declinedAt === undefined || now - declinedAt >= PEER_RETRY_MS) &&
+          canHear(me.position, user.position, attenuation, zones)
+        );
+      })
+      .sort((a, b) => getDistance(me.position, a.position) - getDistance(me.position, b.position))
+      .slice(0, maxPeers);
+  }, []);
 
+  const calculateSpatialGain = useCallback((userPos: Position, otherPos: Position): number => {
+    // Acoustic zones can silence or attenuate voices regardless of distance, and walls in between muffle them
+    const zoneGain = getZoneGain(roomState.layout?.zones ?? [], userPos, otherPos);
+    const occlusion = getOcclusion(roomState.layout?.obstacles ?? [], userPos, otherPos);
+    return zoneGain * occlusion.gain * getDistanceGain(getDistance(userPos, otherPos), roomState.settings.attenuation);
+  }, [roomState.layout, roomState.settings.attenuation]);
+
+  // Our own volume for one person, on top of distance: 0-2, or 0 when muted for us.
+  // By name, so it sticks when they reconnect or come back on another visit.
+  const getLocalVolume = useCallback(
+    (name: string) => (mutedUserNames.includes(name) ? 0 : (userVolumes[name] ?? 100) / 100),
+    [userVolumes, mutedUserNames]
+  );
 
   // Enhanced spatial audio update - supports full 3D positioning and listener movement
   const updateSpatialAudio = useCallback(() => {
@@ -462,20 +1052,32 @@ export default function SpatialAudioChat() {
     console.log(`👤 Current user position: x=${currentCurrentUser.position.x}, y=${currentCurrentUser.position.y}`);
 
     // Update AudioListener position first
-    updateListenerPosition(currentCurrentUser.position);
+    updateListenerPosition(currentCurrentUser.position, currentCurrentUser.facing);
 
     const currentTime = audioContextRef.current.currentTime;
 
     audioConnectionsRef.current.forEach((connection, userId) => {
       const otherUser = roomState.users.find((u) => u.id === userId);
       if (otherUser && connection.gainNode) {
-        // Calculate distance-based gain
-        const gain = calculateSpatialGain(currentCurrentUser.position, otherUser.position);
+        // Calculate distance-based gain, softened for voices behind us; deafen silences everyone without touching our mic
+        // A server-muted user is silent even if their client keeps sending
+        const gain = deafened || otherUser.forceMuted
+          ? 0
+          : calculateSpatialGain(currentCurrentUser.position, otherUser.position) *
+            calculateFacingGain(currentCurrentUser.position, currentCurrentUser.facing, otherUser.position) *
+            (masterVolume / 100) *
+            getLocalVolume(otherUser.name);
         const distance = Math.sqrt(
           Math.pow(otherUser.position.x - currentCurrentUser.position.x, 2) +
           Math.pow(otherUser.position.y - currentCurrentUser.position.y, 2)
         );
 
+        // Muffle voices coming through walls; wide open otherwise
+        if (connection.filterNode) {
+          const { lowPassHz } = getOcclusion(roomState.layout?.obstacles ?? [], currentCurrentUser.position, otherUser.position);
+          connection.filterNode.frequency.setTargetAtTime(lowPassHz ?? UNFILTERED_CUTOFF_HZ, currentTime, GAIN_SMOOTHING_SECONDS);
+        }
+
         // Handle different connection types
         if (connection.connectionType === 'spatial' && connection.pannerNode) {
           // Full spatial audio with 3D positioning
@@ -498,23 +1100,24 @@ export default function SpatialAudioChat() {
               }
             }
 
-            // Apply distance-based gain
-            connection.gainNode.gain.setValueAtTime(gain, currentTime);
-            const actualGain = connection.gainNode.gain.value;
+            // Apply distance-based gain, ramped so continuous movement doesn't click
+            connection.gainNode.gain.setTargetAtTime(gain, currentTime, GAIN_SMOOTHING_SECONDS);
 
-            console.log(`🎧 User ${otherUser.name}: roomPos=(${otherUser.position.x},${otherUser.position.y}) 3DPos=(${otherCoords3D.x.toFixed(2)},${otherCoords3D.y.toFixed(2)},${otherCoords3D.z.toFixed(2)}) distance=${Math.round(distance)}% gain=${actualGain.toFixed(3)} (spatial)`);
+            console.log(`🎧 User ${otherUser.name}: roomPos=(${otherUser.position.x},${otherUser.position.y}) 3DPos=(${otherCoords3D.x.toFixed(2)},${otherCoords3D.y.toFixed(2)},${otherCoords3D.z.toFixed(2)}) distance=${Math.round(distance)}% gain=${gain.toFixed(3)} (spatial)`);
           } catch (pannerError) {
             console.error(`❌ Failed to position panner for ${otherUser.name}:`, pannerError);
           }
 
         } else if (connection.connectionType === 'basic' && connection.usingWebAudio) {
           // Basic Web Audio with distance-based gain only
-          connection.gainNode.gain.setValueAtTime(gain, currentTime);
-          const actualGain = connection.gainNode.gain.value;
-          console.log(`🎯 User ${otherUser.name}: pos=(${otherUser.position.x},${otherUser.position.y}) distance=${Math.round(distance)}% gain=${actualGain.toFixed(3)} (basic Web Audio)`);
+          connection.gainNode.gain.setTargetAtTime(gain, currentTime, GAIN_SMOOTHING_SECONDS);
+          console.log(`🎯 User ${otherUser.name}: pos=(${otherUser.position.x},${otherUser.position.y}) distance=${Math.round(distance)}% gain=${gain.toFixed(3)} (basic Web Audio)`);
 
         } else {
-          // Direct HTMLAudioElement playback - no gain control
+          // Direct HTMLAudioElement playback - no gain control, so deafen mutes the element
+          connection.audioElement.muted = deafened || otherUser.forceMuted;
+          // Elements can't boost past 100%, so local volumes above that only apply with Web Audio
+          connection.audioElement.volume = Math.min(1, (masterVolume / 100) * getLocalVolume(otherUser.name));
           console.log(`🎯 User ${otherUser.name}: pos=(${otherUser.position.x},${otherUser.position.y}) distance=${Math.round(distance)}% (direct playback, no spatial control)`);
         }
       } else {
@@ -523,7 +1126,7 @@ export default function SpatialAudioChat() {
     });
 
     console.log(`✅ Spatial audio update completed at ${currentTime.toFixed(3)}s`);
-  }, [roomState.users, calculateSpatialGain, updateListenerPosition, roomToMeters]);
+  }, [roomState.users, roomState.layout, deafened, masterVolume, getLocalVolume, calculateSpatialGain, updateListenerPosition, roomToMeters]);
 
   // Create and store stable spatial settings function for backward compatibility
   useEffect(() => {
@@ -536,17 +1139,24 @@ export default function SpatialAudioChat() {
   }, []);
 
   const createPeerConnection = useCallback(
-    async (userId: string, streamToUse?: MediaStream): Promise<RTCPeerConnection> => {
+    async (userId: string): Promise<RTCPeerConnection> => {
       console.log(`Creating peer connection for user ${userId}`);
 
       const pc = new RTCPeerConnection({
-        iceServers: [{ urls: "stun:stun.l.google.com:19302" }],
+        iceServers: iceServersRef.current,
       });
 
+      const negotiation: NegotiationState = {
+        polite: isPolitePeer(socket?.id ?? "", userId),
+        makingOffer: false,
+        ignoreOffer: false,
+      };
+
       // Store the peer connection immediately to ensure signaling can find it
       audioConnectionsRef.current.set(userId, {
         userId,
         peerConnection: pc,
+        negotiation,
         audioElement: new Audio(), // Placeholder, will be replaced in ontrack
         source: undefined,
         gainNode: undefined,
@@ -555,12 +1165,19 @@ export default function SpatialAudioChat() {
         connectionType: 'direct'
       });
 
-      // Add connection state monitoring with proper cleanup
+      // Connection state monitoring: drops go through recovery instead of an immediate teardown
       pc.onconnectionstatechange = () => {
         console.log(`WebRTC connection with ${userId}: ${pc.connectionState}`);
-        if (pc.connectionState === "failed" || pc.connectionState === "disconnected") {
-          console.warn(`Audio connection lost with user ${userId}`);
-          cleanupAudioConnection(userId, `connection ${pc.connectionState}`);
+        if (audioConnectionsRef.current.get(userId)?.peerConnection !== pc) return; // Replaced by a rebuild
+
+        if (pc.connectionState === "connected") {
+          if (recoveryRef.current.has(userId)) {
+            console.log(`✅ Audio connection with ${userId} recovered`);
+            clearRecovery(userId);
+          }
+        } else if (pc.connectionState === "failed" || pc.connectionState === "disconnected") {
+          console.warn(`Audio connection ${pc.connectionState} with user ${userId}`);
+          startRecoveryRef.current?.(userId, pc.connectionState === "failed");
         } else if (pc.connectionState === "closed") {
           console.log(`Connection properly closed for ${userId}`);
           cleanupAudioConnection(userId, "connection closed");
@@ -582,8 +1199,8 @@ export default function SpatialAudioChat() {
         throw new Error("Audio context initialization failed");
       }
 
-      // Use the provided stream or fall back to the current localStream
-      const currentLocalStream = streamToUse || localStream;
+      // Adding tracks fires onnegotiationneeded, which sends the offer
+      const currentLocalStream = localStreamRef.current;
       if (currentLocalStream && currentLocalStream.active) {
         const tracks = currentLocalStream.getTracks();
         console.log(`📤 Local stream details for ${userId}:`, {
@@ -628,10 +1245,17 @@ export default function SpatialAudioChat() {
           }))
         });
 
-        // Clean up any existing connection first (Chrome restriction: one MediaElementSource per stream)
         const existingConnection = audioConnectionsRef.current.get(userId);
-        if (existingConnection) {
-          cleanupAudioConnection(userId, "renegotiation");
+        if (!existingConnection || existingConnection.peerConnection !== pc) {
+          console.warn(`⚠️ Ignoring track from ${userId}: peer connection was replaced or closed`);
+          return;
+        }
+
+        // A renegotiated track gets a fresh graph (Chrome restriction: one MediaElementSource per element),
+        // but the peer connection stays up
+        if (existingConnection.audioElement.srcObject) {
+          console.log(`🔄 Rebuilding audio graph for ${userId} after renegotiation`);
+          teardownAudioGraph(existingConnection);
         }
 
         try {
@@ -667,6 +1291,8 @@ export default function SpatialAudioChat() {
           let source: MediaElementAudioSourceNode | undefined;
           let gainNode: GainNode | undefined;
           let pannerNode: PannerNode | undefined;
+          let filterNode: BiquadFilterNode | undefined;
+          let analyserNode: AnalyserNode | undefined;
           let connectionType: 'spatial' | 'basic' | 'direct' = 'direct';
           let graphSuccessful = false;
 
@@ -677,25 +1303,32 @@ export default function SpatialAudioChat() {
             source = audioContextRef.current!.createMediaElementSource(audioElement);
             console.log(`✅ MediaElementSource created for ${userId}`);
 
+            // Low-pass filter for wall occlusion, left wide open until updateSpatialAudio says otherwise
+            filterNode = audioContextRef.current!.createBiquadFilter();
+            filterNode.type = 'lowpass';
+            filterNode.Q.value = 0; // No resonant peak at the cutoff
+            filterNode.frequency.value = UNFILTERED_CUTOFF_HZ;
+            source.connect(filterNode);
+
             // Try spatial audio first
             try {
               pannerNode = audioContextRef.current!.createPanner();
               gainNode = audioContextRef.current!.createGain();
 
-              // Configure PannerNode for spatial audio
-              pannerNode.panningModel = 'HRTF';
+              // Configure PannerNode for direction only: rolloff 0 leaves distance to our GainNode,
+              // which already applies the hearing range, zones and walls
+              pannerNode.panningModel = spatialModeRef.current === 'equalpower' ? 'equalpower' : 'HRTF';
               pannerNode.distanceModel = 'inverse';
               pannerNode.refDistance = 1;
-              pannerNode.maxDistance = 20;
-              pannerNode.rolloffFactor = 1;
+              pannerNode.rolloffFactor = 0;
 
-              // Connect: MediaElementSource -> PannerNode -> GainNode -> Destination
-              source.connect(pannerNode);
+              // Connect: MediaElementSource -> BiquadFilter -> PannerNode -> GainNode -> Destination
+              filterNode.connect(pannerNode);
               pannerNode.connect(gainNode);
               gainNode.connect(audioContextRef.current!.destination);
 
               connectionType = 'spatial';
-              console.log(`🎧 Spatial audio graph connected for ${userId}: Source -> PannerNode -> GainNode -> Destination`);
+              console.log(`🎧 Spatial audio graph connected for ${userId}: Source -> Filter -> PannerNode -> GainNode -> Destination`);
             } catch (pannerError) {
               console.warn(`⚠️ PannerNode failed for ${userId}, falling back to basic:`, pannerError);
 
@@ -705,15 +1338,22 @@ export default function SpatialAudioChat() {
                 pannerNode = undefined;
               }
 
-              // Basic Web Audio: MediaElementSource -> GainNode -> Destination
+              // Basic Web Audio: MediaElementSource -> BiquadFilter -> GainNode -> Destination
+              filterNode.disconnect();
               gainNode = audioContextRef.current!.createGain();
-              source.connect(gainNode);
+              filterNode.connect(gainNode);
               gainNode.connect(audioContextRef.current!.destination);
 
               connectionType = 'basic';
-              console.log(`🔊 Basic Web Audio graph connected for ${userId}: Source -> GainNode -> Destination`);
+              console.log(`🔊 Basic Web Audio graph connected for ${userId}: Source -> Filter -> GainNode -> Destination`);
             }
 
+            // Speaking detection listens before our filter and gain, so distance and walls don't hide who's talking
+            analyserNode = audioContextRef.current!.createAnalyser();
+            analyserNode.fftSize = 256;
+            analyserNode.smoothingTimeConstant = 0.8;
+            source.connect(analyserNode);
+
             graphSuccessful = true;
 
             // Step 4: Mute element ONLY after Web Audio graph is successfully connected
@@ -737,9 +1377,20 @@ export default function SpatialAudioChat() {
               try { pannerNode.disconnect(); } catch { /* ignore */ }
               pannerNode = undefined;
             }
+            if (filterNode) {
+              try { filterNode.disconnect(); } catch { /* ignore */ }
+              filterNode = undefined;
+            }
+            if (analyserNode) {
+              try { analyserNode.disconnect(); } catch { /* ignore */ }
+              analyserNode = undefined;
+            }
 
-            // Keep element unmuted for direct playback
+            // Keep element unmuted for direct playback, on our chosen output
             audioElement.muted = false;
+            applySink(audioElement, outputDeviceIdRef.current).catch((sinkError) => {
+              console.warn(`⚠️ Could not route ${userId} to the chosen output:`, sinkError);
+            });
             connectionType = 'direct';
 
             // Create dummy gain node for API compatibility
@@ -751,15 +1402,22 @@ export default function SpatialAudioChat() {
           const connection: AudioConnection = {
             userId,
             peerConnection: pc,
+            negotiation,
             audioElement,
             source,
             gainNode,
             pannerNode,
+            filterNode,
+            analyserNode,
             usingWebAudio: graphSuccessful,
             connectionType
           };
           audioConnectionsRef.current.set(userId, connection);
 
+          if (connectionType === 'spatial' && spatialModeRef.current === 'mono') {
+            applySpatialMode(connection, 'mono');
+          }
+
           // Step 6: Set initial gain
           if (graphSuccessful && gainNode) {
             gainNode.gain.setValueAtTime(1.0, audioContextRef.current!.currentTime);
@@ -774,12 +1432,15 @@ export default function SpatialAudioChat() {
             elementVolume: audioElement.volume,
             hasSource: !!source,
             hasGainNode: !!gainNode,
-            hasPannerNode: !!pannerNode
+            hasPannerNode: !!pannerNode,
+            hasFilterNode: !!filterNode,
+            hasAnalyserNode: !!analyserNode
           });
 
-          // Step 8: Trigger spatial audio update
+          // Step 8: Trigger spatial audio update (through the ref, since this handler
+          // outlives renders and local volumes must apply to reconnected peers too)
           console.log(`🔄 Updating spatial audio after connecting ${userId}`);
-          updateSpatialAudio();
+          applySpatialSettings();
 
         } catch (error) {
           console.error(`❌ Critical error setting up audio for user ${userId}:`, error);
@@ -799,10 +1460,10 @@ export default function SpatialAudioChat() {
           const currentSocket = socket;
           if (currentSocket && currentSocket.readyState === WebSocket.OPEN) {
             currentSocket.send(
-              JSON.stringify({
+              encodeMessage({
                 type: "ice_candidate",
                 payload: {
-                  candidate: event.candidate,
+                  candidate: event.candidate.toJSON(),
                   targetUserId: userId,
                 },
               })
@@ -814,10 +1475,39 @@ export default function SpatialAudioChat() {
         }
       };
 
+      // Every offer, first or renegotiated, starts here
+      pc.onnegotiationneeded = async () => {
+        if (!socket || socket.readyState !== WebSocket.OPEN) {
+          console.warn(`Cannot negotiate with ${userId}: socket not ready`);
+          return;
+        }
+
+        try {
+          negotiation.makingOffer = true;
+          await pc.setLocalDescription();
+          if (!pc.localDescription) return;
+
+          socket.send(
+            encodeMessage({
+              type: "audio_offer",
+              payload: {
+                offer: pc.localDescription.toJSON(),
+                targetUserId: userId,
+              },
+            })
+          );
+          console.log(`📤 Sent offer to ${userId}`);
+        } catch (error) {
+          console.error(`❌ Error creating offer for ${userId}:`, error);
+        } finally {
+          negotiation.makingOffer = false;
+        }
+      };
+
       console.log(`Peer connection created and stored for user ${userId}`);
       return pc;
     },
-    [initializeAudioContext, localStream, socket, applySpatialSettings]
+    [initializeAudioContext, socket, applySpatialSettings, clearRecovery]
   );
 
   useEffect(() => {
@@ -827,16 +1517,22 @@ export default function SpatialAudioChat() {
   useEffect(() => {
     const ws = new PartySocket({
       host: process.env.NODE_ENV === "development" ? "localhost:1999" : process.env.NEXT_PUBLIC_PARTYKIT_URL || "koolertawk-party.simonadler1.partykit.dev",
-      room: "spatial-chat",
+      room: roomId,
+      query: Object.fromEntries(new URLSearchParams(creationQuery)),
     });
 
     const handleMessage = async (event: MessageEvent) => {
-      const data = JSON.parse(event.data);
+      const parsed = parseServerMessage(event.data);
+      if (!parsed.ok) {
+        console.error(`❌ Ignoring malformed server message (${parsed.code}): ${parsed.error}`);
+        return;
+      }
+      const data = parsed.message;
 
       switch (data.type) {
         case "room_state":
           console.log(`📊 Room state update:`, {
-            users: data.payload.users.map((u: User) => ({
+            users: data.payload.users.map((u) => ({
               name: u.name,
               id: u.id,
               audioEnabled: u.audioEnabled,
@@ -845,64 +1541,43 @@ export default function SpatialAudioChat() {
             totalUsers: data.payload.users.length
           });
 
-          // Check for new users that we need to establish connections with
-          // Use refs to avoid stale closure issues
+          // Use refs to avoid stale closure issues; peer connections follow in the proximity effect
           const currentIsJoined = isJoinedRef.current;
           const currentCurrentUser = currentUserRef.current;
-          const currentAudioEnabled = audioEnabledRef.current;
-
-          if (currentIsJoined && currentCurrentUser && currentAudioEnabled) {
-            const existingConnections = new Set(audioConnectionsRef.current.keys());
-            const newUsers = data.payload.users.filter((u: User) =>
-              u.id !== currentCurrentUser.id &&
-              u.audioEnabled &&
-              !existingConnections.has(u.id)
-            );
-
-            console.log(`🔍 Found ${newUsers.length} new users to connect to:`, newUsers.map((u: User) => u.name));
-
-            // Create offers to new users
-            newUsers.forEach(async (newUser: User) => {
-              try {
-                console.log(`🔗 Creating offer for new user ${newUser.id} (${newUser.name})`);
-                const pc = await createPeerConnection(newUser.id);
-                const offer = await pc.createOffer();
-                await pc.setLocalDescription(offer);
-
-                if (socket && socket.readyState === WebSocket.OPEN) {
-                  socket.send(
-                    JSON.stringify({
-                      type: "audio_offer",
-                      payload: {
-                        offer,
-                        targetUserId: newUser.id,
-                      },
-                    })
-                  );
-                  console.log(`📤 Sent offer to new user ${newUser.id} (${newUser.name})`);
-                } else {
-                  console.warn(`⚠️ Cannot send offer to ${newUser.name}: socket not ready`);
-                }
-              } catch (error) {
-                console.error(`❌ Error creating connection for new user ${newUser.name}:`, error);
-              }
-            });
-          }
+          let currentAudioEnabled = audioEnabledRef.current;
 
           // Deep-clone room state to ensure React sees new references and re-renders
           const clonedRoomState = {
-            seats: data.payload.seats.map((seat: Seat) => ({ ...seat })),
-            users: data.payload.users.map((user: User) => ({
+            layout: data.payload.layout,
+            settings: data.payload.settings,
+            seats: data.payload.seats.map((seat) => ({ ...seat })),
+            users: data.payload.users.map((user) => ({
               ...user,
               position: { ...user.position }
             }))
           };
+          roomStateRef.current = clonedRoomState;
           setRoomState(clonedRoomState);
 
           // Update currentUser if it exists and we're joined - use refs to avoid stale closure
           if (currentIsJoined && currentCurrentUser) {
             const updatedCurrentUser = clonedRoomState.users.find((u: User) => u.id === currentCurrentUser.id);
             if (updatedCurrentUser) {
+              // A moderator's mute overrides ours; we stay muted after they lift it
+              if (updatedCurrentUser.forceMuted && currentAudioEnabled) {
+                console.log("🔇 A moderator muted us");
+                currentAudioEnabled = false;
+                audioEnabledRef.current = false;
+                setAudioEnabled(false);
+              }
+
+              // The local track must always follow our mute intent and transmit gate
+              const localTrack = localStreamRef.current?.getAudioTracks()[0];
+              if (localTrack && localTrack.enabled !== (currentAudioEnabled && transmitGateRef.current)) {
+                console.warn(`⚠️ Local track was ${localTrack.enabled ? "live" : "muted"} against our intent, fixing`);
+                localTrack.enabled = currentAudioEnabled && transmitGateRef.current;
+              }
+
               console.log(`👤 Updating current user position: from (${currentCurrentUser.position.x},${currentCurrentUser.position.y}) to (${updatedCurrentUser.position.x},${updatedCurrentUser.position.y})`);
 
               // Create a new object to ensure React sees the change
@@ -916,22 +1591,142 @@ export default function SpatialAudioChat() {
           }
           break;
 
-        case "chat_message":
-          setChatMessages((prev) => [...prev, data.payload]);
+        case "user_moved": {
+          // Walking or turning: no seat or user list changes
+          const { userId, position, facing } = data.payload;
+          roomStateRef.current = {
+            ...roomStateRef.current,
+            users: roomStateRef.current.users.map((u) => (u.id === userId ? { ...u, position: { ...position }, facing } : u)),
+          };
+          setRoomState((prev) => ({
+            ...prev,
+            users: prev.users.map((u) => (u.id === userId ? { ...u, position: { ...position }, facing } : u)),
+          }));
+          if (currentUserRef.current?.id === userId) {
+            setCurrentUser((prev) => prev && { ...prev, position: { ...position }, facing });
+          }
+          break;
+        }
+
+        case "user_transmit": {
+          const { userId, mode, transmitting } = data.payload;
+          setRoomState((prev) => ({
+            ...prev,
+            users: prev.users.map((u) => (u.id === userId ? { ...u, transmitMode: mode, transmitting } : u)),
+          }));
+          if (currentUserRef.current?.id === userId) {
+            setCurrentUser((prev) => prev && { ...prev, transmitMode: mode, transmitting });
+          }
+          break;
+        }
+
+        case "ice_config": {
+          const { iceServers, expiresAt } = data.payload;
+          iceServersRef.current = iceServers;
+          console.log(`🧊 ICE config: ${iceServers.length} server entries${expiresAt ? `, TURN credentials until ${new Date(expiresAt).toLocaleTimeString()}` : ""}`);
+
+          // Live connections keep their old credentials otherwise, and the next ICE restart would fail
+          audioConnectionsRef.current.forEach((connection, userId) => {
+            const pc = connection.peerConnection;
+            if (pc.signalingState === "closed") return;
+            try {
+              pc.setConfiguration({ ...pc.getConfiguration(), iceServers });
+            } catch (error) {
+              console.error(`❌ Could not update ICE servers for ${userId}:`, error);
+            }
+          });
+
+          if (iceRefreshTimeoutRef.current) clearTimeout(iceRefreshTimeoutRef.current);
+          if (expiresAt) {
+            const refreshInMs = Math.min(
+              ICE_REFRESH_RANGE_MS.max,
+              Math.max(ICE_REFRESH_RANGE_MS.min, (expiresAt - Date.now()) * ICE_REFRESH_FRACTION)
+            );
+            iceRefreshTimeoutRef.current = setTimeout(() => {
+              console.log("🧊 Refreshing TURN credentials");
+              ws.send(encodeMessage({ type: "ice_config_request" }));
+            }, refreshInMs);
+          }
+          break;
+        }
+
+        case "kicked":
+          console.log(`👢 Removed from the room by ${data.payload.byName}`);
+          saveSessionToken(roomId, null);
+          if (isJoinedRef.current) {
+            resetToJoinScreen("kicked");
+          }
+          alert(`${data.payload.byName} removed you from the room.`);
+          break;
+
+        case "session":
+          saveSessionToken(roomId, data.payload.token);
+          reportedQualityRef.current = null; // The server starts us over at null
+          if (data.payload.resumed) {
+            console.log(`🔑 Session resumed as ${data.payload.user.name} at ${data.payload.user.seatId}`);
+            resumeSessionRef.current?.(data.payload.user);
+          }
+          break;
+
+        case "chat_message": {
+          const message = data.payload;
+          setChatMessages((prev) =>
+            prev.some((msg) => msg.id === message.id) ? prev : [...prev, message]
+          );
+          break;
+        }
+
+        case "chat_history": {
+          // Merge backlog into what we already have, skipping messages we saw live
+          const { messages } = data.payload;
+          setChatMessages((prev) => {
+            const knownIds = new Set(prev.map((msg) => msg.id));
+            const history = messages
+              .filter((msg) => !knownIds.has(msg.id))
+              .map((msg) => ({ ...msg, isHistory: true }));
+
+            if (history.length === 0) return prev;
+            console.log(`🕘 Received ${history.length} earlier chat messages`);
+            return [...prev, ...history].sort((a, b) => a.timestamp - b.timestamp);
+          });
           break;
+        }
 
         case "error":
-          console.error("❌ Server error:", data.payload.message);
-          alert(data.payload.message);
+          console.error(`❌ Server error (${data.payload.code}):`, data.payload.message);
+          if (data.payload.code === "seat_unavailable" || data.payload.code === "forbidden" || data.payload.code === "unknown_user") {
+            alert(data.payload.message);
+            // The server turned down our join (taken or locked seat, wrong admin secret)
+            const joinedUser = currentUserRef.current;
+            if (isJoinedRef.current && joinedUser && !roomStateRef.current.users.some((u) => u.id === joinedUser.id)) {
+              resetToJoinScreen(`join refused: ${data.payload.code}`);
+            }
+          } else if (data.payload.code === "session_expired" || data.payload.code === "session_in_use") {
+            saveSessionToken(roomId, null);
+            if (isJoinedRef.current) {
+              resetToJoinScreen(data.payload.code);
+            }
+          }
           break;
       }
     };
 
+    // Fires on the first connect and after every automatic reconnect
+    const handleOpen = () => {
+      const token = loadSessionToken(roomId);
+      if (token) {
+        console.log("🔑 Resuming session with stored token");
+        ws.send(encodeMessage({ type: "resume", payload: { token } }));
+      }
+    };
+
+    ws.addEventListener("open", handleOpen);
     ws.onmessage = handleMessage;
     setSocket(ws);
 
     return () => {
       ws.close();
+      if (iceRefreshTimeoutRef.current) clearTimeout(iceRefreshTimeoutRef.current);
 
       // Clean up all peer connections using proper cleanup function
       const connectionsSnapshot = audioConnectionsRef.current;
@@ -961,14 +1756,16 @@ export default function SpatialAudioChat() {
         audioContextRef.current.close();
       }
     };
-  }, []); // Empty dependency array is intentional - this effect only runs once on mount
+  }, [roomId, creationQuery, resetToJoinScreen]); // Only re-runs when navigating to a different room
 
   // Handle WebRTC signaling messages
   useEffect(() => {
     if (!socket) return;
 
     const handleSignaling = async (event: MessageEvent) => {
-      const data = JSON.parse(event.data);
+      const parsed = parseServerMessage(event.data);
+      if (!parsed.ok) return; // Already reported by the main message handler
+      const data = parsed.message;
       console.log(`📡 Received signaling message:`, data.type, data.payload);
 
       switch (data.type) {
@@ -976,24 +1773,58 @@ export default function SpatialAudioChat() {
           // Use socket.id instead of currentUser?.id since they should be the same
           if (data.payload.targetUserId === socket.id) {
             console.log(`📥 Received audio offer from ${data.payload.fromUserId}`);
+
+            const fromUserId = data.payload.fromUserId;
+            let connection = audioConnectionsRef.current.get(fromUserId);
+
+            // Turn down new connections from peers we wouldn't keep, e.g. out of range or past our peer cap
+            if (!connection) {
+              // The room_state handler updates the ref as messages arrive, ahead of React's render
+              const latestState = roomStateRef.current;
+              const me = latestState.users.find((u) => u.id === socket.id) ?? currentUserRef.current;
+              if (!me || !getDesiredPeers(latestState, me, fromUserId).some((u) => u.id === fromUserId)) {
+                console.log(`📴 Declining audio offer from ${fromUserId}: not one of our nearest peers`);
+                socket.send(encodeMessage({ type: "audio_hangup", payload: { targetUserId: fromUserId } }));
+                break;
+              }
+            }
+
             try {
-              const pc = await createPeerConnection(data.payload.fromUserId);
+              if (!connection) {
+                await createPeerConnection(fromUserId);
+                connection = audioConnectionsRef.current.get(fromUserId);
+                if (!connection) break;
+              }
+              const { peerConnection: pc, negotiation } = connection;
+
+              // Glare: both sides offered at once. The impolite peer keeps its own offer;
+              // the polite one rolls back implicitly in setRemoteDescription.
+              const offerCollision = negotiation.makingOffer || pc.signalingState !== "stable";
+              negotiation.ignoreOffer = !negotiation.polite && offerCollision;
+              if (negotiation.ignoreOffer) {
+                console.log(`🤝 Ignoring colliding offer from ${fromUserId}, ours wins`);
+                break;
+              }
+              if (offerCollision) {
+                console.log(`🤝 Offer collision with ${fromUserId}, rolling back ours`);
+              }
+
               await pc.setRemoteDescription(data.payload.offer);
-              const answer = await pc.createAnswer();
-              await pc.setLocalDescription(answer);
+              await pc.setLocalDescription();
+              if (!pc.localDescription) break;
 
               socket.send(
-                JSON.stringify({
+                encodeMessage({
                   type: "audio_answer",
                   payload: {
-                    answer,
-                    targetUserId: data.payload.fromUserId,
+                    answer: pc.localDescription.toJSON(),
+                    targetUserId: fromUserId,
                   },
                 })
               );
-              console.log(`📤 Sent audio answer to ${data.payload.fromUserId}`);
+              console.log(`📤 Sent audio answer to ${fromUserId}`);
             } catch (error) {
-              console.error(`❌ Error handling audio offer from ${data.payload.fromUserId}:`, error);
+              console.error(`❌ Error handling audio offer from ${fromUserId}:`, error);
             }
           } else {
             console.log(`⚠️ Ignoring audio offer not for me (target: ${data.payload.targetUserId}, me: ${socket.id})`);
@@ -1029,13 +1860,24 @@ export default function SpatialAudioChat() {
                 await connection.peerConnection.addIceCandidate(data.payload.candidate);
                 console.log(`Added ICE candidate for ${data.payload.fromUserId}`);
               } catch (error) {
-                console.error(`Error adding ICE candidate for ${data.payload.fromUserId}:`, error);
+                // Candidates for an offer we ignored are expected to fail
+                if (!connection.negotiation.ignoreOffer) {
+                  console.error(`Error adding ICE candidate for ${data.payload.fromUserId}:`, error);
+                }
               }
             } else {
               console.warn(`No connection found for user ${data.payload.fromUserId} when processing ICE candidate`);
             }
           }
           break;
+
+        case "audio_hangup":
+          if (data.payload.targetUserId === socket.id) {
+            console.log(`📴 ${data.payload.fromUserId} closed our audio connection`);
+            declinedPeersRef.current.set(data.payload.fromUserId, Date.now());
+            cleanupAudioConnection(data.payload.fromUserId, "remote hung up");
+          }
+          break;
       }
     };
 
@@ -1046,29 +1888,217 @@ export default function SpatialAudioChat() {
     return () => {
       socketRef.removeEventListener("message", handleSignaling);
     };
-  }, [socket, createPeerConnection]);
+  }, [socket, createPeerConnection, cleanupAudioConnection, getDesiredPeers]);
 
-  const joinRoom = async (seatId: string) => {
-    if (!userName || !socket) return;
+  useEffect(() => {
+    roomStateRef.current = roomState;
+  }, [roomState]);
 
+  // The offer itself goes out from onnegotiationneeded once our track is added
+  const connectToPeer = useCallback(async (otherUser: User) => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      setLocalStream(stream);
-      await initializeAudioContext();
+      console.log(`🔗 Connecting to ${otherUser.id} (${otherUser.name})`);
+      await createPeerConnection(otherUser.id);
+    } catch (error) {
+      console.error(`❌ Error creating peer connection for ${otherUser.id}:`, error);
+    }
+  }, [createPeerConnection]);
+
+  const hangUpPeer = useCallback((userId: string, reason: string) => {
+    socket?.send(encodeMessage({ type: "audio_hangup", payload: { targetUserId: userId } }));
+    cleanupAudioConnection(userId, reason);
+  }, [socket, cleanupAudioConnection]);
+
+  // A dropped peer first gets DISCONNECT_GRACE_MS to come back by itself (skipped when the
+  // connection has outright failed), then an ICE restart. After that the impolite side, which
+  // offers first, rebuilds the peer connection with backoff, while the polite side keeps
+  // restarting ICE and takes the rebuilt connection's offer when it arrives.
+  const startRecovery = (userId: string, failed: boolean) => {
+    const existing = recoveryRef.current.get(userId);
+    if (existing) {
+      if (failed && existing.attempt === 0 && existing.timer) {
+        clearTimeout(existing.timer);
+        existing.timer = setTimeout(() => runRecoveryStepRef.current?.(userId), 0);
+      }
+      return;
+    }
 
-      socket.send(
-        JSON.stringify({
-          type: "join",
-          payload: { name: userName, seatId },
-        })
-      );
+    console.log(`🩹 Audio connection with ${userId} dropped, starting recovery`);
+    const recovery: PeerRecovery = { attempt: 0, timer: null };
+    recovery.timer = setTimeout(() => runRecoveryStepRef.current?.(userId), failed ? 0 : DISCONNECT_GRACE_MS);
+    recoveryRef.current.set(userId, recovery);
+    setLinkStatus(userId, "reconnecting");
+  };
 
-      const user: User = {
-        id: socket.id!,
-        name: userName,
-        position: roomState.seats.find((s) => s.id === seatId)?.position || { x: 0, y: 0 },
-        seatId,
-        audioEnabled: true,
+  const runRecoveryStep = async (userId: string) => {
+    const recovery = recoveryRef.current.get(userId);
+    if (!recovery) return;
+
+    const connection = audioConnectionsRef.current.get(userId);
+    if (!connection) {
+      clearRecovery(userId);
+      return;
+    }
+    if (connection.peerConnection.connectionState === "connected") {
+      console.log(`✅ Audio connection with ${userId} recovered`);
+      clearRecovery(userId);
+      return;
+    }
+
+    if (recovery.attempt >= MAX_RECOVERY_ATTEMPTS) {
+      // The dead connection stays in place so the proximity effect doesn't retry in a tight loop
+      console.error(`❌ Giving up on audio connection with ${userId} after ${recovery.attempt} attempts`);
+      recovery.timer = null;
+      setLinkStatus(userId, "failed");
+      return;
+    }
+
+    recovery.attempt++;
+    const rebuild = recovery.attempt > 1 && !connection.negotiation.polite;
+
+    if (rebuild) {
+      console.log(`🔁 Rebuilding audio connection with ${userId} (attempt ${recovery.attempt})`);
+      // Hanging up first makes the peer drop its side and accept our new offer
+      hangUpPeer(userId, "rebuilding");
+      recoveryRef.current.set(userId, recovery);
+      setLinkStatus(userId, "reconnecting");
+    }
+
+    const delay = Math.min(RECOVERY_MAX_DELAY_MS, RECOVERY_BASE_DELAY_MS * 2 ** (recovery.attempt - 1));
+    recovery.timer = setTimeout(() => runRecoveryStepRef.current?.(userId), delay);
+
+    if (rebuild) {
+      try {
+        await createPeerConnection(userId);
+      } catch (error) {
+        console.error(`❌ Error rebuilding audio connection with ${userId}:`, error);
+      }
+    } else {
+      console.log(`🧊 Restarting ICE with ${userId} (attempt ${recovery.attempt})`);
+      connection.peerConnection.restartIce();
+    }
+  };
+
+  useEffect(() => {
+    startRecoveryRef.current = startRecovery;
+    runRecoveryStepRef.current = runRecoveryStep;
+  });
+
+  // Connect only to the nearest users in range, using the server's hearing rules. In each
+  // pair the lower user id sends the offer, so both sides don't race to connect.
+  useEffect(() => {
+    if (!isJoined || !currentUser || !socket) return;
+
+    const desiredPeers = getDesiredPeers(roomState, currentUser);
+    const desiredIds = new Set(desiredPeers.map((u) => u.id));
+
+    Array.from(audioConnectionsRef.current.keys()).forEach((userId) => {
+      if (!desiredIds.has(userId)) {
+        console.log(`📴 Closing audio connection with ${userId}: out of range, gone, or past the peer cap`);
+        hangUpPeer(userId, "out of range");
+      }
+    });
+
+    desiredPeers.forEach((otherUser) => {
+      if (audioConnectionsRef.current.has(otherUser.id) || currentUser.id > otherUser.id) return;
+      connectToPeer(otherUser);
+    });
+
+    // Peers that hung up on us are skipped until PEER_RETRY_MS has passed. Come back then
+    // even if nothing else changes, or a quiet room would never retry them.
+    const now = Date.now();
+    const retryTimes = Array.from(declinedPeersRef.current.values())
+      .map((declinedAt) => declinedAt + PEER_RETRY_MS)
+      .filter((retryAt) => retryAt > now);
+    if (retryTimes.length === 0) return;
+
+    const timeout = setTimeout(() => setPeerRetryTick((tick) => tick + 1), Math.min(...retryTimes) - now);
+    return () => clearTimeout(timeout);
+  }, [isJoined, currentUser, roomState, socket, peerRetryTick, getDesiredPeers, hangUpPeer, connectToPeer]);
+
+  // Poll every connected peer's stats for the quality panel and signal bars. Our summary goes
+  // to the server once it has held for two polls, so a single noisy sample doesn't broadcast.
+  useEffect(() => {
+    if (!isJoined || !socket) return;
+
+    const statsSamples = statsSamplesRef.current;
+
+    const poll = async () => {
+      const next: Record<string, PeerStats> = {};
+      for (const [userId, connection] of audioConnectionsRef.current) {
+        if (connection.peerConnection.connectionState !== "connected") continue;
+        try {
+          const { stats, sample } = await collectPeerStats(connection.peerConnection, statsSamples.get(userId));
+          next[userId] = stats;
+          if (sample) statsSamples.set(userId, sample);
+        } catch (error) {
+          console.warn(`⚠️ Could not read connection stats for ${userId}:`, error);
+        }
+      }
+      for (const userId of Array.from(statsSamples.keys())) {
+        if (!audioConnectionsRef.current.has(userId)) statsSamples.delete(userId);
+      }
+      setPeerStats(next);
+
+      const summary = summarizeLinkQuality(
+        Object.values(next).flatMap((stats) => (stats.quality ? [stats.quality] : []))
+      );
+      const settled = summary === lastQualitySummaryRef.current;
+      lastQualitySummaryRef.current = summary;
+      if (settled && summary !== reportedQualityRef.current && socket.readyState === WebSocket.OPEN) {
+        console.log(`📶 Link quality now ${summary ?? "unknown"}`);
+        reportedQualityRef.current = summary;
+        socket.send(encodeMessage({ type: "set_link_quality", payload: { quality: summary } }));
+      }
+    };
+
+    const interval = setInterval(poll, STATS_POLL_MS);
+    return () => {
+      clearInterval(interval);
+      statsSamples.clear();
+      lastQualitySummaryRef.current = null;
+      reportedQualityRef.current = null;
+      setPeerStats({});
+    };
+  }, [isJoined, socket]);
+
+  const joinRoom = async (seatId: string) => {
+    if (!userName || !socket) return;
+
+    try {
+      const stream = await getMicrophoneStream(inputDeviceIdRef.current, micProcessingRef.current);
+      refreshDevices(); // Labels become available once we have permission
+      stream.getAudioTracks().forEach((track) => {
+        track.enabled = transmitGateRef.current;
+      });
+      setLocalStream(stream);
+      await initializeAudioContext();
+
+      socket.send(
+        encodeMessage({
+          type: "join",
+          payload: { name: userName, seatId, ...(adminSecret ? { adminSecret } : {}) },
+        })
+      );
+      if (transmitModeRef.current !== "open") {
+        sendTransmitState(); // The server starts everyone on open mic
+      }
+
+      const seat = roomState.seats.find((s) => s.id === seatId);
+      const user: User = {
+        id: socket.id!,
+        name: userName,
+        position: seat?.position || { x: 0, y: 0 },
+        facing: seat ? getSeatFacing(seat, roomState.layout?.tables ?? []) : 0,
+        seatId,
+        audioEnabled: true,
+        deafened: false,
+        connected: true,
+        linkQuality: null,
+        transmitMode: transmitModeRef.current,
+        transmitting: transmitGateRef.current,
+        role: "member", // The server's room_state says if we're the owner
+        forceMuted: false,
       };
 
       setCurrentUser(user);
@@ -1076,38 +2106,94 @@ export default function SpatialAudioChat() {
 
       // Initialize AudioListener position when joining
       console.log(`👤 User joined at position (${user.position.x}, ${user.position.y})`);
-      updateListenerPosition(user.position);
+      updateListenerPosition(user.position, user.facing);
 
-      // Create peer connections for existing users
-      for (const otherUser of roomState.users) {
-        if (otherUser.audioEnabled) {
-          try {
-            console.log(`🔗 Creating offer for existing user ${otherUser.id} (${otherUser.name})`);
-            const pc = await createPeerConnection(otherUser.id, stream);
-            const offer = await pc.createOffer();
-            await pc.setLocalDescription(offer);
-
-            socket.send(
-              JSON.stringify({
-                type: "audio_offer",
-                payload: {
-                  offer,
-                  targetUserId: otherUser.id,
-                },
-              })
-            );
-            console.log(`📤 Sent offer to existing user ${otherUser.id} (${otherUser.name})`);
-          } catch (error) {
-            console.error(`❌ Error creating peer connection for ${otherUser.id}:`, error);
-          }
-        } else {
-          console.log(`⚠️ Skipping ${otherUser.name} - audio disabled`);
+      // Peer connections to nearby users follow from the proximity effect
+    } catch (error) {
+      console.error("Error accessing microphone:", error);
+      alert("Could not access microphone. Please check permissions.");
+    }
+  };
+
+  // The server gave our seat back after a reconnect or reload: restore name and
+  // mute state, and only rebuild the peer connections we actually lost
+  const resumeSession = async (user: User) => {
+    if (!socket) return;
+
+    let stream = localStreamRef.current;
+    try {
+      if (!stream || !stream.active) {
+        stream = await getMicrophoneStream(inputDeviceIdRef.current, micProcessingRef.current);
+        localStreamRef.current = stream;
+        setLocalStream(stream);
+
+        // Peers we kept are still sending the dead track; swap in the new one
+        for (const connection of audioConnectionsRef.current.values()) {
+          await syncLocalTrack(connection.peerConnection, stream);
         }
       }
+      await initializeAudioContext();
     } catch (error) {
-      console.error("Error accessing microphone:", error);
+      console.error("Error accessing microphone while resuming:", error);
       alert("Could not access microphone. Please check permissions.");
+      socket.send(encodeMessage({ type: "leave" }));
+      saveSessionToken(roomId, null);
+      resetToJoinScreen("microphone unavailable");
+      return;
+    }
+
+    // Pick up the transmit mode we had; the gate starts closed unless it's open mic
+    transmitModeRef.current = user.transmitMode;
+    setTransmitMode(user.transmitMode);
+    transmitGateRef.current = user.transmitMode === "open";
+    setTransmitting(transmitGateRef.current);
+    if (user.transmitting !== transmitGateRef.current) {
+      sendTransmitState();
     }
+
+    stream.getAudioTracks().forEach((track) => {
+      track.enabled = user.audioEnabled && transmitGateRef.current;
+    });
+    setAudioEnabled(user.audioEnabled);
+    audioEnabledRef.current = user.audioEnabled;
+    setDeafened(user.deafened);
+    deafenedRef.current = user.deafened;
+    setUserName(user.name);
+    setCurrentUser(user);
+    setIsJoined(true);
+    updateListenerPosition(user.position, user.facing);
+  };
+
+  useEffect(() => {
+    resumeSessionRef.current = resumeSession;
+  });
+
+  const leaveRoom = () => {
+    socket?.send(encodeMessage({ type: "leave" }));
+    saveSessionToken(roomId, null);
+    resetToJoinScreen("left room");
+  };
+
+  // Moderation: the server checks our role again, these only send the request
+  const setUserRole = (user: User, role: "moderator" | "member") => {
+    socket?.send(encodeMessage({ type: "set_role", payload: { targetUserId: user.id, role } }));
+  };
+
+  const kickUser = (user: User) => {
+    if (!socket || !confirm(`Remove ${user.name} from the room? They can join again.`)) return;
+    socket.send(encodeMessage({ type: "kick", payload: { targetUserId: user.id } }));
+  };
+
+  const setForceMute = (user: User, muted: boolean) => {
+    socket?.send(encodeMessage({ type: "force_mute", payload: { targetUserId: user.id, muted } }));
+  };
+
+  const moveUser = (user: User, seatId: string) => {
+    socket?.send(encodeMessage({ type: "move_user", payload: { targetUserId: user.id, seatId } }));
+  };
+
+  const setSeatLock = (seatId: string, locked: boolean) => {
+    socket?.send(encodeMessage({ type: "set_seat_lock", payload: { seatId, locked } }));
   };
 
   const moveTo = (seatId: string) => {
@@ -1127,74 +2213,599 @@ export default function SpatialAudioChat() {
       return;
     }
 
+    if (targetSeat.locked) {
+      console.warn(`⚠️ Target seat ${seatId} is locked`);
+      return;
+    }
+
     console.log(`🚶 Moving from ${currentUser.seatId} to ${seatId}`);
 
     // Simple server-driven update - no optimistic mutations for now
     socket.send(
-      JSON.stringify({
+      encodeMessage({
         type: "move",
         payload: { seatId },
       })
     );
   };
 
+  // Free movement: send at most one move_to per interval, always ending on the latest target
+  const sendMoveTo = useCallback((position: Position) => {
+    if (!socket) return;
+
+    moveTargetRef.current = clampToRoom({
+      x: Math.round(position.x * 10) / 10,
+      y: Math.round(position.y * 10) / 10,
+    });
+
+    const flush = () => {
+      pendingMoveTimeoutRef.current = null;
+      if (!moveTargetRef.current) return;
+      lastMoveSentAtRef.current = Date.now();
+      socket.send(encodeMessage({ type: "move_to", payload: { position: moveTargetRef.current } }));
+    };
+
+    const wait = MOVE_SEND_INTERVAL_MS - (Date.now() - lastMoveSentAtRef.current);
+    if (wait <= 0) {
+      flush();
+    } else if (!pendingMoveTimeoutRef.current) {
+      pendingMoveTimeoutRef.current = setTimeout(flush, wait);
+    }
+  }, [socket]);
+
+  const cancelPendingMove = () => {
+    if (pendingMoveTimeoutRef.current) {
+      clearTimeout(pendingMoveTimeoutRef.current);
+      pendingMoveTimeoutRef.current = null;
+    }
+  };
+
+  const pointerToRoomPosition = (event: React.PointerEvent): Position | null => {
+    const rect = seatMapRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return null;
+    return clampToRoom({
+      x: ((event.clientX - rect.left) / rect.width) * 100,
+      y: ((event.clientY - rect.top) / rect.height) * 100,
+    });
+  };
+
+  const handleMapPointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!roomState.settings.freeMovement || !currentUser) return;
+
+    const position = pointerToRoomPosition(event);
+    if (!position || getDistance(position, currentUser.position) > AVATAR_GRAB_RADIUS) return;
+
+    // Only our own avatar (or seat) can be picked up
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    draggingPointerRef.current = event.pointerId;
+    setDragPosition(position);
+  };
+
+  const handleMapPointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (draggingPointerRef.current !== event.pointerId) return;
+
+    const position = pointerToRoomPosition(event);
+    if (!position) return;
+    setDragPosition(position);
+    sendMoveTo(position);
+  };
+
+  const handleMapPointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (draggingPointerRef.current !== event.pointerId) return;
+    draggingPointerRef.current = null;
+    setDragPosition(null);
+
+    const position = pointerToRoomPosition(event);
+    if (!position) return;
+
+    // Dropping next to a free seat sits down in it
+    const nearbySeat = roomState.seats
+      .filter((seat) => !seat.occupied && !seat.locked && getDistance(seat.position, position) <= SEAT_SNAP_DISTANCE)
+      .sort((a, b) => getDistance(a.position, position) - getDistance(b.position, position))[0];
+
+    if (nearbySeat) {
+      cancelPendingMove();
+      moveTo(nearbySeat.id);
+    } else {
+      sendMoveTo(position);
+    }
+  };
+
+  const handleMapPointerCancel = () => {
+    draggingPointerRef.current = null;
+    setDragPosition(null);
+  };
+
+  const sendFacing = useCallback((facing: number) => {
+    if (!socket) return;
+
+    facingTargetRef.current = normalizeFacing(facing);
+
+    const flush = () => {
+      pendingFacingTimeoutRef.current = null;
+      if (facingTargetRef.current === null) return;
+      lastFacingSentAtRef.current = Date.now();
+      socket.send(encodeMessage({ type: "set_facing", payload: { facing: facingTargetRef.current } }));
+    };
+
+    const wait = MOVE_SEND_INTERVAL_MS - (Date.now() - lastFacingSentAtRef.current);
+    if (wait <= 0) {
+      flush();
+    } else if (!pendingFacingTimeoutRef.current) {
+      pendingFacingTimeoutRef.current = setTimeout(flush, wait);
+    }
+  }, [socket]);
+
+  // Like keyboard walking, quick turns build on our last target rather than the server's echo
+  const turnBy = useCallback((degrees: number) => {
+    const user = currentUserRef.current;
+    if (!user) return;
+
+    const recentFacing =
+      facingTargetRef.current !== null &&
+      (pendingFacingTimeoutRef.current || Date.now() - lastFacingSentAtRef.current < MOVE_TARGET_TTL_MS)
+        ? facingTargetRef.current
+        : user.facing;
+
+    sendFacing(recentFacing + degrees);
+  }, [sendFacing]);
+
+  // Q/E turn in every room
+  useEffect(() => {
+    if (!isJoined) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) return;
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+      const key = event.key.toLowerCase();
+      if (key !== "q" && key !== "e") return;
+      event.preventDefault();
+      turnBy(key === "q" ? -TURN_STEP : TURN_STEP);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isJoined, turnBy]);
+
+  // WASD/arrow keys walk in small steps while not typing
+  useEffect(() => {
+    if (!isJoined || !roomState.settings.freeMovement) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) return;
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+      const direction = MOVE_KEYS[event.key.toLowerCase()];
+      const user = currentUserRef.current;
+      if (!direction || !user) return;
+      event.preventDefault();
+
+      // Holding a key outpaces the server round trip, so step from our last target
+      const recentTarget =
+        moveTargetRef.current &&
+        (pendingMoveTimeoutRef.current || Date.now() - lastMoveSentAtRef.current < MOVE_TARGET_TTL_MS)
+          ? moveTargetRef.current
+          : user.position;
+
+      sendMoveTo({
+        x: recentTarget.x + direction.x * KEYBOARD_STEP,
+        y: recentTarget.y + direction.y * KEYBOARD_STEP,
+      });
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isJoined, roomState.settings.freeMovement, sendMoveTo]);
+
+  useEffect(() => {
+    return () => {
+      if (pendingMoveTimeoutRef.current) clearTimeout(pendingMoveTimeoutRef.current);
+      if (pendingFacingTimeoutRef.current) clearTimeout(pendingFacingTimeoutRef.current);
+    };
+  }, []);
+
+  const refreshDevices = useCallback(async (): Promise<MediaDeviceInfo[]> => {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    setInputDevices(devices.filter((device) => device.kind === "audioinput"));
+    setOutputDevices(devices.filter((device) => device.kind === "audiooutput"));
+    return devices;
+  }, []);
+
+  // Swap the mic under every peer connection with replaceTrack on the existing senders,
+  // so nobody renegotiates. Before joining there's nothing to swap; the next
+  // getUserMedia picks up the new settings.
+  const switchMicrophone = useCallback(async (reason: string) => {
+    const oldStream = localStreamRef.current;
+    if (!oldStream) return;
+
+    console.log(`🎤 Switching microphone: ${reason}`);
+    const newStream = await getMicrophoneStream(inputDeviceIdRef.current, micProcessingRef.current);
+    newStream.getAudioTracks().forEach((track) => {
+      track.enabled = audioEnabledRef.current && transmitGateRef.current;
+    });
+
+    for (const connection of audioConnectionsRef.current.values()) {
+      try {
+        await syncLocalTrack(connection.peerConnection, newStream);
+      } catch (error) {
+        console.error(`❌ Error swapping our track for ${connection.userId}:`, error);
+      }
+    }
+
+    localStreamRef.current = newStream;
+    setLocalStream(newStream);
+    oldStream.getTracks().forEach((track) => track.stop());
+    console.log(`✅ Now sending ${newStream.getAudioTracks()[0]?.label || "the new microphone"}`);
+  }, []);
+
+  const applyOutputDevice = useCallback(async (deviceId: string | null) => {
+    try {
+      if (audioContextRef.current) {
+        await applySink(audioContextRef.current as unknown as SinkTarget, deviceId);
+      }
+      // Web Audio peers play through the context; only direct-playback elements need their own sink
+      for (const connection of audioConnectionsRef.current.values()) {
+        if (!connection.usingWebAudio) {
+          await applySink(connection.audioElement, deviceId);
+        }
+      }
+      console.log(`🔈 Output set to ${deviceId ?? "the system default"}`);
+    } catch (error) {
+      console.error("❌ Could not switch output device:", error);
+    }
+  }, []);
+
+  const selectInputDevice = async (deviceId: string | null) => {
+    inputDeviceIdRef.current = deviceId;
+    setInputDeviceId(deviceId);
+    try {
+      await switchMicrophone("input device changed");
+    } catch (error) {
+      console.error("❌ Could not switch microphone:", error);
+      alert("Could not switch to that microphone. Please check permissions.");
+    }
+  };
+
+  const selectOutputDevice = async (deviceId: string | null) => {
+    outputDeviceIdRef.current = deviceId;
+    setOutputDeviceId(deviceId);
+    await applyOutputDevice(deviceId);
+  };
+
+  // Browsers only apply these reliably to a fresh capture, so toggling one re-opens the mic
+  const toggleMicProcessing = async (option: keyof MicProcessing) => {
+    const next = { ...micProcessingRef.current, [option]: !micProcessingRef.current[option] };
+    micProcessingRef.current = next;
+    setMicProcessing(next);
+    try {
+      await switchMicrophone(`${option} ${next[option] ? "on" : "off"}`);
+    } catch (error) {
+      console.error("❌ Could not re-open microphone:", error);
+    }
+  };
+
+  // Headsets coming and going: refresh the pickers and move off devices that disappeared.
+  // On the system default mic, follow the default when it becomes a different device.
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices) return;
+
+    setOutputSelectionSupported(typeof AudioContext !== "undefined" && "setSinkId" in AudioContext.prototype);
+    refreshDevices();
+
+    const handleDeviceChange = async () => {
+      const devices = await refreshDevices();
+      const inputs = devices.filter((device) => device.kind === "audioinput");
+      const outputs = devices.filter((device) => device.kind === "audiooutput");
+      console.log(`🔌 Audio devices changed: ${inputs.length} inputs, ${outputs.length} outputs`);
+
+      try {
+        const selectedInput = inputDeviceIdRef.current;
+        const track = localStreamRef.current?.getAudioTracks()[0];
+        if (selectedInput && !inputs.some((device) => device.deviceId === selectedInput)) {
+          console.warn("⚠️ Selected microphone was unplugged, falling back to the default");
+          inputDeviceIdRef.current = null;
+          setInputDeviceId(null);
+          await switchMicrophone("selected microphone unplugged");
+        } else if (!selectedInput && track) {
+          const systemDefault = inputs.find((device) => device.deviceId === "default") ?? inputs[0];
+          const groupId = track.getSettings().groupId;
+          if (track.readyState === "ended" || (systemDefault && groupId && groupId !== systemDefault.groupId)) {
+            await switchMicrophone("system default microphone changed");
+          }
+        }
+      } catch (error) {
+        console.error("❌ Could not follow the microphone change:", error);
+      }
+
+      const selectedOutput = outputDeviceIdRef.current;
+      if (selectedOutput && !outputs.some((device) => device.deviceId === selectedOutput)) {
+        console.warn("⚠️ Selected output was unplugged, falling back to the default");
+        outputDeviceIdRef.current = null;
+        setOutputDeviceId(null);
+        await applyOutputDevice(null);
+      }
+    };
+
+    mediaDevices.addEventListener("devicechange", handleDeviceChange);
+    return () => mediaDevices.removeEventListener("devicechange", handleDeviceChange);
+  }, [refreshDevices, switchMicrophone, applyOutputDevice]);
+
+  const sendTransmitState = useCallback(() => {
+    socket?.send(
+      encodeMessage({
+        type: "set_transmit",
+        payload: { mode: transmitModeRef.current, transmitting: transmitGateRef.current },
+      })
+    );
+  }, [socket]);
+
+  // The mic track carries sound only while we're unmuted and the transmit gate is open
+  const setTransmitGate = useCallback((open: boolean) => {
+    const track = localStreamRef.current?.getAudioTracks()[0];
+    if (track) track.enabled = audioEnabledRef.current && open;
+    if (transmitGateRef.current === open) return;
+
+    transmitGateRef.current = open;
+    setTransmitting(open);
+    sendTransmitState();
+  }, [sendTransmitState]);
+
+  const changeTransmitMode = useCallback((mode: TransmitMode) => {
+    console.log(`🎙️ Transmit mode set to ${mode}`);
+    transmitModeRef.current = mode;
+    setTransmitMode(mode);
+
+    const open = mode === "open";
+    const track = localStreamRef.current?.getAudioTracks()[0];
+    if (track) track.enabled = audioEnabledRef.current && open;
+    transmitGateRef.current = open;
+    setTransmitting(open);
+    // Before joining, joinRoom tells the server
+    if (isJoinedRef.current) sendTransmitState();
+  }, [sendTransmitState]);
+
+  const preferences: Preferences = useMemo(
+    () => ({
+      userName,
+      inputDeviceId,
+      outputDeviceId,
+      micProcessing,
+      transmitMode,
+      pttKey,
+      vadThreshold,
+      vadHangoverMs,
+      masterVolume,
+      spatialMode,
+      userVolumes,
+      mutedUserNames,
+    }),
+    [userName, inputDeviceId, outputDeviceId, micProcessing, transmitMode, pttKey, vadThreshold, vadHangoverMs, masterVolume, spatialMode, userVolumes, mutedUserNames]
+  );
+
+  // Used for the stored preferences on load and for imported files. When we're
+  // already in the room, device and transmit changes take effect straight away.
+  const applyPreferences = useCallback(async (next: Preferences) => {
+    setUserName(next.userName);
+    setPttKey(next.pttKey);
+    setVadThreshold(next.vadThreshold);
+    setVadHangoverMs(next.vadHangoverMs);
+    setMasterVolume(next.masterVolume);
+    setSpatialMode(next.spatialMode);
+    setUserVolumes(next.userVolumes);
+    setMutedUserNames(next.mutedUserNames);
+    if (next.transmitMode !== transmitModeRef.current) changeTransmitMode(next.transmitMode);
+
+    const micChanged =
+      next.inputDeviceId !== inputDeviceIdRef.current ||
+      JSON.stringify(next.micProcessing) !== JSON.stringify(micProcessingRef.current);
+    inputDeviceIdRef.current = next.inputDeviceId;
+    setInputDeviceId(next.inputDeviceId);
+    micProcessingRef.current = next.micProcessing;
+    setMicProcessing(next.micProcessing);
+    if (micChanged) {
+      try {
+        await switchMicrophone("preferences loaded");
+      } catch (error) {
+        console.error("❌ Could not switch microphone:", error);
+      }
+    }
+
+    if (next.outputDeviceId !== outputDeviceIdRef.current) {
+      outputDeviceIdRef.current = next.outputDeviceId;
+      setOutputDeviceId(next.outputDeviceId);
+      await applyOutputDevice(next.outputDeviceId);
+    }
+  }, [changeTransmitMode, switchMicrophone, applyOutputDevice]);
+
+  useEffect(() => {
+    if (preferencesLoadedRef.current) savePreferences(preferences);
+  }, [preferences]);
+
+  useEffect(() => {
+    if (preferencesLoadedRef.current) return;
+    preferencesLoadedRef.current = true;
+    applyPreferences(loadPreferences());
+    console.log("💾 Preferences loaded");
+  }, [applyPreferences]);
+
+  const setUserVolume = (name: string, volume: number) => {
+    setUserVolumes((previous) => {
+      const next = { ...previous };
+      // 100% is the default, so it isn't stored
+      if (volume === 100) {
+        delete next[name];
+      } else {
+        next[name] = volume;
+      }
+      return next;
+    });
+  };
+
+  const toggleLocalMute = (name: string) => {
+    setMutedUserNames((previous) =>
+      previous.includes(name) ? previous.filter((n) => n !== name) : [...previous, name]
+    );
+    console.log(`🔕 ${mutedUserNames.includes(name) ? "Unmuted" : "Muted"} ${name} for us only`);
+  };
+
+  const downloadPreferences = () => {
+    const blob = new Blob([exportPreferences(preferences)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "koolertawk-preferences.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handlePreferencesFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // Picking the same file again should import it again
+    if (!file) return;
+
+    const imported = importPreferences(await file.text());
+    if (!imported) {
+      alert("That file doesn't contain KoolerTawk preferences.");
+      return;
+    }
+    await applyPreferences(imported);
+    console.log(`💾 Preferences imported from ${file.name}`);
+  };
+
+  // Push to talk: the gate is open while the key is held. Keyup always counts, even in a text field.
+  useEffect(() => {
+    if (!isJoined || transmitMode !== "push_to_talk" || capturingPttKey) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== pttKey || event.repeat) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) return;
+      event.preventDefault();
+      setTransmitGate(true);
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code === pttKey) setTransmitGate(false);
+    };
+    // We never see the keyup if focus leaves the window mid-press
+    const handleBlur = () => setTransmitGate(false);
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("blur", handleBlur);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", handleBlur);
+    };
+  }, [isJoined, transmitMode, pttKey, capturingPttKey, setTransmitGate]);
+
+  // Choosing the push-to-talk key: the next key press wins, Escape cancels. Listening in the
+  // capture phase keeps the press from also walking or turning us.
+  useEffect(() => {
+    if (!capturingPttKey) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.code === "Escape") {
+        setCapturingPttKey(false);
+      } else if (!RESERVED_KEY_CODES.has(event.code)) {
+        console.log(`📻 Push-to-talk key set to ${formatKeyCode(event.code)}`);
+        setPttKey(event.code);
+        setCapturingPttKey(false);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [capturingPttKey]);
+
+  // Voice activation: open while the mic meter is over the threshold, then hold for the hangover
+  useEffect(() => {
+    if (!isJoined || !audioEnabled || transmitMode !== "voice_activation") return;
+
+    let lastVoiceAt = 0;
+    const interval = setInterval(() => {
+      const analyser = liveMicAnalyserRef.current;
+      if (!analyser) return;
+
+      const now = Date.now();
+      if (getAnalyserLevel(analyser) >= vadThreshold) lastVoiceAt = now;
+      setTransmitGate(now - lastVoiceAt <= vadHangoverMs);
+    }, VAD_POLL_MS);
+
+    return () => clearInterval(interval);
+  }, [isJoined, audioEnabled, transmitMode, vadThreshold, vadHangoverMs, setTransmitGate]);
+
   const toggleAudio = async () => {
     if (!socket || !localStream) return;
+    if (!audioEnabled && currentUserRef.current?.forceMuted) {
+      alert("A moderator has muted you. You can unmute once they lift it.");
+      return;
+    }
 
     const audioTrack = localStream.getAudioTracks()[0];
     if (audioTrack) {
-      const newAudioEnabled = !audioTrack.enabled;
-      audioTrack.enabled = newAudioEnabled;
+      // Flip our intent, not the track: the track may have drifted from it, and it
+      // also stays off while push to talk or voice activation holds the gate closed
+      const newAudioEnabled = !audioEnabled;
+      audioTrack.enabled = newAudioEnabled && transmitGateRef.current;
       setAudioEnabled(newAudioEnabled);
+      audioEnabledRef.current = newAudioEnabled;
 
       console.log(`🎤 Audio ${newAudioEnabled ? 'enabled' : 'disabled'}`);
 
-      // If re-enabling audio, we need to create new offers since tracks were disabled
-      if (newAudioEnabled && isJoined && currentUser) {
-        console.log("🔄 Re-enabling audio, creating new offers to existing users");
-
-        // Get all users that should have audio connections
-        const usersToReconnect = roomState.users.filter(u =>
-          u.id !== currentUser.id && u.audioEnabled
-        );
+      socket.send(
+        encodeMessage({
+          type: "set_audio",
+          payload: { enabled: newAudioEnabled },
+        })
+      );
 
-        for (const otherUser of usersToReconnect) {
+      // A disabled track keeps its sender, so muting never renegotiates. On unmute, make sure
+      // every peer carries our live track; adding one renegotiates through onnegotiationneeded.
+      if (newAudioEnabled) {
+        for (const connection of audioConnectionsRef.current.values()) {
           try {
-            // Check if we already have a connection, if so close it first
-            const existingConnection = audioConnectionsRef.current.get(otherUser.id);
-            if (existingConnection) {
-              console.log(`🔄 Closing existing connection with ${otherUser.name} before renegotiation`);
-              existingConnection.peerConnection.close();
-              existingConnection.audioElement.pause();
-              audioConnectionsRef.current.delete(otherUser.id);
-            }
-
-            console.log(`🔗 Creating new offer for ${otherUser.name} after audio re-enable`);
-            const pc = await createPeerConnection(otherUser.id, localStream);
-            const offer = await pc.createOffer();
-            await pc.setLocalDescription(offer);
-
-            socket.send(
-              JSON.stringify({
-                type: "audio_offer",
-                payload: {
-                  offer,
-                  targetUserId: otherUser.id,
-                },
-              })
-            );
-            console.log(`📤 Sent new offer to ${otherUser.name}`);
+            await syncLocalTrack(connection.peerConnection, localStream);
           } catch (error) {
-            console.error(`❌ Error reconnecting to ${otherUser.name}:`, error);
+            console.error(`❌ Error restoring our track for ${connection.userId}:`, error);
           }
         }
       }
+    }
+  };
 
-      socket.send(
-        JSON.stringify({
-          type: "toggle_audio",
-        })
-      );
+  const setDeafenState = (newDeafened: boolean) => {
+    if (!socket) return;
+
+    setDeafened(newDeafened);
+    deafenedRef.current = newDeafened;
+    console.log(`🎧 ${newDeafened ? "Deafened" : "Undeafened"}`);
+
+    socket.send(
+      encodeMessage({
+        type: "set_deafen",
+        payload: { deafened: newDeafened },
+      })
+    );
+  };
+
+  const toggleDeafen = () => setDeafenState(!deafened);
+
+  // Mute + deafen together; undoing it restores both
+  const toggleMuteAndDeafen = async () => {
+    const muteAndDeafen = audioEnabled || !deafened;
+    setDeafenState(muteAndDeafen);
+    if (audioEnabled === muteAndDeafen) {
+      await toggleAudio();
     }
   };
 
@@ -1202,7 +2813,7 @@ export default function SpatialAudioChat() {
     if (!socket || !chatInput.trim()) return;
 
     socket.send(
-      JSON.stringify({
+      encodeMessage({
         type: "chat",
         payload: { message: chatInput },
       })
@@ -1211,20 +2822,262 @@ export default function SpatialAudioChat() {
     setChatInput("");
   };
 
+  const copyRoomLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      console.log(`🔗 Copied room link for ${roomId}`);
+    } catch (error) {
+      console.error("Error copying room link:", error);
+    }
+  };
+
+  // Quiet and private zones from the room layout, shaded under everything else
+  const renderZones = () =>
+    roomState.layout?.zones.map((zone) => (
+      <div
+        key={zone.id}
+        className={`absolute border-2 border-dashed rounded-lg pointer-events-none ${
+          zone.rule === "isolated" ? "border-purple-600 bg-purple-100/50" : "border-teal-600 bg-teal-100/50"
+        }`}
+        style={{
+          left: `${zone.position.x - zone.width / 2}%`,
+          top: `${zone.position.y - zone.height / 2}%`,
+          width: `${zone.width}%`,
+          height: `${zone.height}%`,
+        }}
+        title={zone.rule === "isolated" ? `${zone.label}: private` : `${zone.label}: outside voices -${zone.attenuationDb ?? 0} dB`}
+      >
+        <span className="absolute top-1 left-1 text-xs font-bold text-black">
+          {zone.rule === "isolated" ? "🔒" : "🤫"} {zone.label}
+        </span>
+      </div>
+    ));
+
+  const renderObstacles = () =>
+    roomState.layout && roomState.layout.obstacles.length > 0 && (
+      <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+        {roomState.layout.obstacles.map((obstacle) => {
+          const points = obstacle.points.map((point) => `${point.x},${point.y}`).join(" ");
+          const style = {
+            wall: { stroke: "black", strokeWidth: 6, fill: "none" },
+            partition: { stroke: "#4b5563", strokeWidth: 4, fill: "none" },
+            furniture: { stroke: "black", strokeWidth: 2, fill: "#fcd34d" },
+          }[obstacle.kind];
+
+          return obstacle.closed ? (
+            <polygon key={obstacle.id} points={points} {...style} vectorEffect="non-scaling-stroke">
+              <title>{obstacle.label}</title>
+            </polygon>
+          ) : (
+            <polyline key={obstacle.id} points={points} {...style} fill="none" strokeLinecap="round" vectorEffect="non-scaling-stroke">
+              <title>{obstacle.label}</title>
+            </polyline>
+          );
+        })}
+      </svg>
+    );
+
+  // Small arrow on an avatar's edge showing which way they face
+  const renderFacingArrow = (facing: number) => (
+    <div className="absolute inset-0 pointer-events-none" style={{ transform: `rotate(${facing}deg)` }}>
+      <div className="absolute -top-3 left-1/2 -translate-x-1/2 text-[10px] leading-none text-black">▲</div>
+    </div>
+  );
+
+  // Our audio link to a peer while it recovers, or after giving up on it
+  const renderLinkBadge = (userId: string) => {
+    const status = peerLinkStatus[userId];
+    if (!status) return null;
+
+    return (
+      <div
+        className={`absolute -top-2 -left-2 px-1 rounded border border-black text-[9px] leading-tight font-bold pointer-events-none ${
+          status === "failed" ? "bg-red-600 text-white" : "bg-amber-300 text-black animate-pulse"
+        }`}
+        title={status === "failed" ? "Audio connection failed" : "Audio connection reconnecting"}
+      >
+        {status === "failed" ? "❌" : "🔄"}
+      </div>
+    );
+  };
+
+  const renderDeviceSettings = () => {
+    // Before mic permission is granted, browsers hide device labels (and sometimes the list)
+    const hasLabels = inputDevices.some((device) => device.label);
+
+    return (
+      <div className="bg-gray-100 border-2 border-black rounded-lg p-4 mb-4">
+        <h3 className="text-lg font-bold mb-3 text-black">🎛️ Audio Devices</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-3">
+          <label className="flex flex-col gap-1 text-sm font-bold text-black">
+            🎤 Microphone
+            <select
+              value={inputDeviceId ?? ""}
+              onChange={(e) => selectInputDevice(e.target.value || null)}
+              className="p-2 border-2 border-black rounded-lg bg-white text-black"
+            >
+              <option value="">System default</option>
+              {inputDevices
+                .filter((device) => device.deviceId && device.deviceId !== "default")
+                .map((device, index) => (
+                  <option key={device.deviceId} value={device.deviceId}>
+                    {device.label || `Microphone ${index + 1}`}
+                  </option>
+                ))}
+            </select>
+          </label>
+          {outputSelectionSupported ? (
+            <label className="flex flex-col gap-1 text-sm font-bold text-black">
+              🔈 Output
+              <select
+                value={outputDeviceId ?? ""}
+                onChange={(e) => selectOutputDevice(e.target.value || null)}
+                className="p-2 border-2 border-black rounded-lg bg-white text-black"
+              >
+                <option value="">System default</option>
+                {outputDevices
+                  .filter((device) => device.deviceId && device.deviceId !== "default")
+                  .map((device, index) => (
+                    <option key={device.deviceId} value={device.deviceId}>
+                      {device.label || `Speaker ${index + 1}`}
+                    </option>
+                  ))}
+              </select>
+            </label>
+          ) : (
+            <p className="text-sm text-black font-medium">
+              🔈 This browser always plays through the system output; change it in your OS sound settings.
+            </p>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-4 mb-2">
+          {MIC_PROCESSING_OPTIONS.map((option) => (
+            <label key={option.id} className="flex items-center gap-2 text-sm font-bold text-black">
+              <input
+                type="checkbox"
+                checked={micProcessing[option.id]}
+                onChange={() => toggleMicProcessing(option.id)}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-black font-medium">
+          Turn these off for music or a studio mic. Unplugging the selected device falls back to the system default.
+          {!hasLabels && " Device names appear once you allow microphone access (Test Audio or joining)."}
+        </p>
+        <div className="flex flex-wrap items-center gap-2 mt-3 pt-3 border-t-2 border-black">
+          <span className="text-sm font-bold text-black">💾 Your name, devices, volumes and modes are saved in this browser</span>
+          <button
+            onClick={downloadPreferences}
+            className="px-3 py-1 bg-white text-black text-sm rounded-lg hover:bg-gray-100 border-2 border-black font-bold"
+          >
+            ⬇️ Export
+          </button>
+          <button
+            onClick={() => preferencesFileInputRef.current?.click()}
+            className="px-3 py-1 bg-white text-black text-sm rounded-lg hover:bg-gray-100 border-2 border-black font-bold"
+          >
+            ⬆️ Import
+          </button>
+          <input
+            ref={preferencesFileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handlePreferencesFile}
+            className="hidden"
+          />
+        </div>
+      </div>
+    );
+  };
+
+  // Push-to-talk and voice-activated users show whether their mic is getting through right now
+  const renderTransmitBadge = (user: User) => {
+    if (user.transmitMode === "open" || !user.audioEnabled) return null;
+
+    return (
+      <div
+        className={`absolute -bottom-2 -left-2 px-0.5 rounded border border-black text-[8px] leading-tight font-bold pointer-events-none ${
+          user.transmitting ? "bg-green-500 text-white" : "bg-gray-300 text-black"
+        }`}
+      >
+        {user.transmitMode === "push_to_talk" ? "PTT" : "VA"}
+      </div>
+    );
+  };
+
+  const renderSpeakingRing = (userId: string) =>
+    speakingUserIds.has(userId) && (
+      <div className="absolute -inset-1 rounded-full border-4 border-green-400 animate-pulse pointer-events-none" />
+    );
+
+  // Our measured link to a peer, or our own summary on our avatar
+  const myLinkQuality = summarizeLinkQuality(
+    Object.values(peerStats).flatMap((stats) => (stats.quality ? [stats.quality] : []))
+  );
+
+  const renderSignalBars = (userId: string) => {
+    const quality = userId === currentUser?.id ? myLinkQuality : peerStats[userId]?.quality;
+    if (!quality) return null;
+
+    const level = quality === "good" ? 3 : quality === "fair" ? 2 : 1;
+    const color = quality === "good" ? "bg-green-500" : quality === "fair" ? "bg-yellow-400" : "bg-red-600";
+    return (
+      <div className="absolute -bottom-2 -right-2 flex items-end gap-px p-0.5 bg-white border border-black rounded pointer-events-none">
+        {[1, 2, 3].map((bar) => (
+          <div key={bar} className={`w-1 ${bar <= level ? color : "bg-gray-300"}`} style={{ height: `${bar * 3}px` }} />
+        ))}
+      </div>
+    );
+  };
+
+  // Tables from the room layout, drawn underneath the seats
+  const renderTables = () =>
+    roomState.layout?.tables.map((table) => (
+      <div
+        key={table.id}
+        className={`absolute bg-amber-200 border-2 border-black flex items-center justify-center text-xs font-bold text-black pointer-events-none ${
+          table.shape === "round" ? "rounded-full" : "rounded-lg"
+        }`}
+        style={{
+          left: `${table.position.x - table.width / 2}%`,
+          top: `${table.position.y - table.height / 2}%`,
+          width: `${table.width}%`,
+          height: `${table.height}%`,
+        }}
+      >
+        {table.label}
+      </div>
+    ));
+
+  const hearingRange = getHearingRange(roomState.settings.attenuation);
+  const currentZone = currentUser && findZone(roomState.layout?.zones ?? [], currentUser.position);
+  const currentSeat = roomState.seats.find((seat) => seat.id === currentUser?.seatId);
+
   if (!isJoined) {
     return (
       <div className="min-h-screen bg-white p-8">
         <div className="max-w-4xl mx-auto">
-          <h1 className="text-3xl font-bold mb-8 text-center text-black">Spatial Audio Chat</h1>
+          <h1 className="text-3xl font-bold mb-2 text-center text-black">Spatial Audio Chat</h1>
+          <p className="text-center text-black font-semibold mb-8">Room: {roomId}</p>
 
           <div className="bg-white border-2 border-black rounded-lg p-6 mb-6">
             <input
               type="text"
               placeholder="Enter your name"
+              maxLength={MAX_NAME_LENGTH}
               value={userName}
               onChange={(e) => setUserName(e.target.value)}
               className="w-full p-3 border-2 border-black rounded-lg mb-4 text-black bg-white"
             />
+            <input
+              type="password"
+              placeholder="Room admin secret (optional, makes you the owner)"
+              value={adminSecret}
+              onChange={(e) => setAdminSecret(e.target.value)}
+              className="w-full p-3 border-2 border-black rounded-lg mb-4 text-black bg-white"
+            />
 
             <div className="flex gap-2 mb-4">
               <button
@@ -1233,8 +3086,16 @@ export default function SpatialAudioChat() {
               >
                 {showAudioTest ? "🔧 Hide Audio Test" : "🔧 Test Audio"}
               </button>
+              <button
+                onClick={() => setShowDevices(!showDevices)}
+                className="px-4 py-2 bg-white text-black rounded-lg hover:bg-gray-100 border-2 border-black font-bold"
+              >
+                {showDevices ? "🎛️ Hide Devices" : "🎛️ Devices"}
+              </button>
             </div>
 
+            {showDevices && renderDeviceSettings()}
+
             {showAudioTest && (
               <div className="bg-gray-100 border-2 border-black rounded-lg p-4 mb-4">
                 <h3 className="text-lg font-bold mb-4 text-black">Audio Test Tools</h3>
@@ -1347,33 +3208,48 @@ export default function SpatialAudioChat() {
           </div>
 
           <div className="bg-white border-2 border-black rounded-lg p-6">
-            <h2 className="text-xl font-semibold mb-4 text-black">Select a Seat</h2>
+            <h2 className="text-xl font-semibold mb-4 text-black">
+              Select a Seat{roomState.layout && ` - ${roomState.layout.name}`}
+            </h2>
             <div className="relative w-full aspect-square bg-gray-200 border-2 border-black rounded-lg overflow-hidden">
+              {renderZones()}
+              {renderObstacles()}
+              {renderTables()}
               {roomState.seats.map((seat) => (
                 <button
                   key={seat.id}
                   onClick={() => joinRoom(seat.id)}
-                  disabled={seat.occupied || !userName}
+                  disabled={seat.occupied || seat.locked || !userName}
                   className={`absolute w-[8%] h-[12%] rounded-full border-2 border-black flex items-center justify-center text-xs font-bold ${
                     seat.occupied
                       ? "bg-red-600 cursor-not-allowed text-white"
+                      : seat.locked
+                      ? "bg-gray-500 cursor-not-allowed text-white"
                       : "bg-green-600 hover:bg-green-700 cursor-pointer text-white"
                   }`}
                   style={{
                     left: `${seat.position.x - 4}%`,
                     top: `${seat.position.y - 6}%`,
                   }}
-                  title={seat.occupied ? `Occupied by ${seat.userId}` : "Available seat"}
+                  title={
+                    seat.occupied
+                      ? `${seat.label}: occupied by ${seat.userId}`
+                      : seat.locked
+                      ? `${seat.label}: locked by a moderator`
+                      : `${seat.label}: available`
+                  }
                 >
                   {seat.occupied ? (
                     <span className="text-white text-xs">👤</span>
+                  ) : seat.locked ? (
+                    <span className="text-white text-xs">🔒</span>
                   ) : (
                     <span className="text-white text-xs">💺</span>
                   )}
                 </button>
               ))}
             </div>
-            <p className="text-sm text-black mt-2 font-semibold">🟢 Available seats • 🔴 Occupied seats</p>
+            <p className="text-sm text-black mt-2 font-semibold">🟢 Available seats • 🔴 Occupied seats • 🔒 Locked seats</p>
           </div>
         </div>
       </div>
@@ -1385,17 +3261,178 @@ export default function SpatialAudioChat() {
       <div className="max-w-6xl mx-auto">
         <div className="bg-white border-2 border-black rounded-lg p-6 mb-4">
           <div className="flex justify-between items-center">
-            <h1 className="text-2xl font-bold text-black">Spatial Audio Chat - {currentUser?.name}</h1>
-            <div className="flex gap-2 items-center">
+            <div>
+              <h1 className="text-2xl font-bold text-black">Spatial Audio Chat - {currentUser?.name}</h1>
+              <p className="text-sm text-black font-medium">
+                Room: {roomId}
+                {currentUser?.role === "owner" && " • 👑 You own this room"}
+                {currentUser?.role === "moderator" && " • 🛡️ You're a moderator"}
+              </p>
+            </div>
+            <div className="flex flex-wrap justify-end gap-2 items-center">
+              <button
+                onClick={copyRoomLink}
+                className="px-4 py-2 bg-white text-black rounded-lg hover:bg-gray-100 border-2 border-black font-bold"
+              >
+                🔗 Copy Link
+              </button>
+              <button
+                onClick={() => setShowDevices(!showDevices)}
+                className="px-4 py-2 bg-white text-black rounded-lg hover:bg-gray-100 border-2 border-black font-bold"
+              >
+                {showDevices ? "🎛️ Hide Devices" : "🎛️ Devices"}
+              </button>
+
+              <button
+                onClick={leaveRoom}
+                className="px-4 py-2 bg-white text-black rounded-lg hover:bg-gray-100 border-2 border-black font-bold"
+              >
+                🚪 Leave
+              </button>
+
               <button
                 onClick={toggleAudio}
                 className={`px-4 py-2 rounded-lg border-2 border-black font-bold ${
                   audioEnabled ? "bg-green-600 hover:bg-green-700 text-white" : "bg-red-600 hover:bg-red-700 text-white"
                 }`}
+                title={currentUser?.forceMuted ? "A moderator has muted you" : undefined}
+              >
+                {currentUser?.forceMuted ? "🚫 Muted by moderator" : audioEnabled ? "🎤 Mute" : "🔇 Unmute"}
+              </button>
+
+              <button
+                onClick={toggleDeafen}
+                className={`px-4 py-2 rounded-lg border-2 border-black font-bold ${
+                  deafened ? "bg-red-600 hover:bg-red-700 text-white" : "bg-green-600 hover:bg-green-700 text-white"
+                }`}
+                title="Silence everyone without muting your microphone"
               >
-                {audioEnabled ? "🎤 Mute" : "🔇 Unmute"}
+                {deafened ? "🙉 Undeafen" : "🎧 Deafen"}
               </button>
 
+              <button
+                onClick={toggleMuteAndDeafen}
+                className="px-4 py-2 bg-white text-black rounded-lg hover:bg-gray-100 border-2 border-black font-bold"
+              >
+                {!audioEnabled && deafened ? "🔊 Unmute + Undeafen" : "🔕 Mute + Deafen"}
+              </button>
+
+              <select
+                value={spatialMode}
+                onChange={(e) => setSpatialMode(e.target.value as SpatialMode)}
+                className="px-2 py-2 bg-white text-black rounded-lg border-2 border-black font-bold"
+                title="How other voices are placed left and right"
+              >
+                {SPATIAL_MODES.map((mode) => (
+                  <option key={mode.id} value={mode.id}>
+                    {mode.label}
+                  </option>
+                ))}
+              </select>
+
+              <label
+                className="flex items-center gap-2 bg-gray-100 border-2 border-black rounded-lg px-3 py-2 text-sm font-bold text-black"
+                title="Volume for everyone you hear, on top of distance"
+              >
+                🔊
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={masterVolume}
+                  onChange={(e) => setMasterVolume(Number(e.target.value))}
+                  className="w-20"
+                />
+                {masterVolume}%
+              </label>
+
+              <select
+                value={transmitMode}
+                onChange={(e) => changeTransmitMode(e.target.value as TransmitMode)}
+                className="px-2 py-2 bg-white text-black rounded-lg border-2 border-black font-bold"
+                title="When your unmuted mic sends sound"
+              >
+                {TRANSMIT_MODES.map((mode) => (
+                  <option key={mode.id} value={mode.id}>
+                    {mode.label}
+                  </option>
+                ))}
+              </select>
+
+              {transmitMode === "push_to_talk" && (
+                <>
+                  <button
+                    onPointerDown={(e) => {
+                      e.currentTarget.setPointerCapture(e.pointerId);
+                      setTransmitGate(true);
+                    }}
+                    onPointerUp={() => setTransmitGate(false)}
+                    onPointerCancel={() => setTransmitGate(false)}
+                    onContextMenu={(e) => e.preventDefault()}
+                    className={`px-4 py-2 rounded-lg border-2 border-black font-bold touch-none select-none ${
+                      transmitting ? "bg-green-600 text-white" : "bg-white text-black hover:bg-gray-100"
+                    }`}
+                    title={`Hold to talk, or hold ${formatKeyCode(pttKey)}`}
+                  >
+                    {transmitting ? "📻 Talking…" : "📻 Hold to Talk"}
+                  </button>
+                  <button
+                    onClick={() => setCapturingPttKey(true)}
+                    className="px-2 py-2 bg-white text-black text-sm rounded-lg hover:bg-gray-100 border-2 border-black font-bold"
+                    title="Change the push-to-talk key (not WASD, arrows, Q or E)"
+                  >
+                    {capturingPttKey ? "Press a key… (Esc cancels)" : `⌨️ Key: ${formatKeyCode(pttKey)}`}
+                  </button>
+                </>
+              )}
+
+              {transmitMode === "voice_activation" && (
+                <div className="flex items-center gap-2 bg-gray-100 border-2 border-black rounded-lg px-3 py-1 text-sm font-bold text-black">
+                  <label className="flex items-center gap-1" title="Mic level that starts sending; watch the mic meter while you talk">
+                    Threshold
+                    <input
+                      type="range"
+                      min={VAD_THRESHOLD_RANGE.min}
+                      max={VAD_THRESHOLD_RANGE.max}
+                      value={vadThreshold}
+                      onChange={(e) => setVadThreshold(Number(e.target.value))}
+                      className="w-20"
+                    />
+                    {vadThreshold}
+                  </label>
+                  <label className="flex items-center gap-1" title="How long to keep sending after you stop talking">
+                    Hold
+                    <input
+                      type="number"
+                      min={VAD_HANGOVER_RANGE_MS.min}
+                      max={VAD_HANGOVER_RANGE_MS.max}
+                      step={100}
+                      value={vadHangoverMs}
+                      onChange={(e) =>
+                        setVadHangoverMs(
+                          Math.min(
+                            VAD_HANGOVER_RANGE_MS.max,
+                            Math.max(VAD_HANGOVER_RANGE_MS.min, Number(e.target.value) || DEFAULT_PREFERENCES.vadHangoverMs)
+                          )
+                        )
+                      }
+                      className="w-16 px-1 border-2 border-black rounded bg-white"
+                    />
+                    ms
+                  </label>
+                  <span>{transmitting ? "🟢" : "⚫"}</span>
+                </div>
+              )}
+
+              {audioSyncStalled && (
+                <span
+                  className="px-2 py-1 bg-yellow-300 text-black text-sm font-bold border-2 border-black rounded-lg"
+                  title="Others may still see your previous mute state"
+                >
+                  ⚠️ Syncing mute state…
+                </span>
+              )}
+
               {/* Live mic level indicator */}
               {isJoined && audioEnabled && (
                 <div className="flex items-center gap-2 bg-gray-100 border-2 border-black rounded-lg px-3 py-2">
@@ -1421,12 +3458,64 @@ export default function SpatialAudioChat() {
               )}
             </div>
           </div>
+          {showDevices && <div className="mt-4">{renderDeviceSettings()}</div>}
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 min-h-[70vh]">
           <div className="lg:col-span-2 bg-white border-2 border-black rounded-lg p-6">
-            <h2 className="text-xl font-semibold mb-4 text-black">Room Layout</h2>
-            <div className="relative w-full aspect-square bg-gray-200 border-2 border-black rounded-lg overflow-hidden">
+            <h2 className="text-xl font-semibold mb-4 text-black">
+              Room Layout{roomState.layout && ` - ${roomState.layout.name}`}
+            </h2>
+            {currentZone && (
+              <p className="text-sm text-black mb-2 font-medium">
+                {currentZone.rule === "isolated"
+                  ? `🔒 You're in ${currentZone.label}: only people inside can hear you or read your chat`
+                  : `🤫 You're in ${currentZone.label}: voices from outside are ${currentZone.attenuationDb ?? 0} dB quieter`}
+              </p>
+            )}
+            <div className="flex items-center gap-2 mb-2">
+              <button
+                onClick={() => turnBy(-TURN_STEP)}
+                className="px-3 py-1 bg-white text-black rounded-lg hover:bg-gray-100 border-2 border-black font-bold"
+                title="Turn left (Q)"
+              >
+                ↺ Turn
+              </button>
+              <button
+                onClick={() => turnBy(TURN_STEP)}
+                className="px-3 py-1 bg-white text-black rounded-lg hover:bg-gray-100 border-2 border-black font-bold"
+                title="Turn right (E)"
+              >
+                Turn ↻
+              </button>
+              {currentSeat?.tableId && (
+                <button
+                  onClick={() => sendFacing(getSeatFacing(currentSeat, roomState.layout?.tables ?? []))}
+                  className="px-3 py-1 bg-white text-black rounded-lg hover:bg-gray-100 border-2 border-black font-bold"
+                >
+                  🎯 Face Table
+                </button>
+              )}
+              <span className="text-sm text-black font-medium">Voices in front of you are clearer; Q/E to turn</span>
+            </div>
+            {roomState.settings.freeMovement && (
+              <p className="text-sm text-black mb-2 font-medium">
+                🚶 Free movement: drag yourself around or use WASD. Drop next to a free seat to sit down.
+              </p>
+            )}
+            <div
+              ref={seatMapRef}
+              onPointerDown={handleMapPointerDown}
+              onPointerMove={handleMapPointerMove}
+              onPointerUp={handleMapPointerUp}
+              onPointerCancel={handleMapPointerCancel}
+              className={`relative w-full aspect-square bg-gray-200 border-2 border-black rounded-lg overflow-hidden ${
+                roomState.settings.freeMovement ? "touch-none" : ""
+              }`}
+            >
+              {renderZones()}
+              {renderObstacles()}
+              {renderTables()}
               {roomState.seats.map((seat) => {
                 const user = roomState.users.find((u) => u.seatId === seat.id);
                 const isCurrentUser = user?.id === currentUser?.id;
@@ -1434,44 +3523,97 @@ export default function SpatialAudioChat() {
                 return (
                   <button
                     key={seat.id}
-                    onClick={() => !seat.occupied && moveTo(seat.id)}
-                    disabled={seat.occupied}
+                    onClick={() => !seat.occupied && !seat.locked && moveTo(seat.id)}
+                    // Our own seat stays enabled so it can be picked up in free movement rooms
+                    disabled={(seat.occupied || seat.locked) && !isCurrentUser}
                     className={`absolute w-[8%] h-[12%] rounded-full border-2 border-black flex items-center justify-center text-xs font-bold ${
                       isCurrentUser
                         ? "bg-blue-600 text-white"
                         : seat.occupied
                         ? "bg-red-600 text-white cursor-not-allowed"
+                        : seat.locked
+                        ? "bg-gray-500 text-white cursor-not-allowed"
                         : "bg-green-600 text-white hover:bg-green-700 cursor-pointer"
                     }`}
                     style={{
                       left: `${seat.position.x - 4}%`,
                       top: `${seat.position.y - 6}%`,
                     }}
-                    title={user ? `${user.name} ${user.audioEnabled ? "🎤" : "🔇"}` : "Available"}
+                    title={
+                      user
+                        ? `${seat.label}: ${user.name} ${user.audioEnabled ? "🎤" : "🔇"}${user.deafened ? " 🙉 (can't hear you)" : ""}${user.connected ? "" : " (reconnecting)"}`
+                        : `${seat.label}: ${seat.locked ? "locked by a moderator" : "available"}`
+                    }
                   >
+                    {!user && seat.locked && <span>🔒</span>}
                     {user && (
                       <div className="text-center relative">
                         <div>👤</div>
                         {!user.audioEnabled && <div>🔇</div>}
+                        {user.deafened && <div>🙉</div>}
+                        {!user.connected && <div>⏳</div>}
                         {/* Show live mic indicator for current user */}
                         {isCurrentUser && audioEnabled && liveMicLevel > 5 && (
                           <div className="absolute -top-1 -right-1 w-3 h-3 bg-green-500 rounded-full border border-white animate-pulse"></div>
                         )}
                       </div>
                     )}
+                    {user && renderSpeakingRing(user.id)}
+                    {user && renderFacingArrow(user.facing)}
+                    {user && renderLinkBadge(user.id)}
+                    {user && renderSignalBars(user.id)}
+                    {user && renderTransmitBadge(user)}
                   </button>
                 );
               })}
 
+              {/* Users standing between seats (free movement) */}
+              {roomState.users
+                .filter((user) => !user.seatId)
+                .map((user) => {
+                  const isCurrentUser = user.id === currentUser?.id;
+                  return (
+                    <div
+                      key={user.id}
+                      className={`absolute w-[6%] h-[6%] rounded-full border-2 border-black flex items-center justify-center text-xs font-bold transition-all duration-100 ${
+                        isCurrentUser ? "bg-blue-600 text-white cursor-grab" : "bg-purple-600 text-white"
+                      }`}
+                      style={{
+                        left: `${user.position.x - 3}%`,
+                        top: `${user.position.y - 3}%`,
+                      }}
+                      title={`${user.name} ${user.audioEnabled ? "🎤" : "🔇"}${user.deafened ? " 🙉 (can't hear you)" : ""}${user.connected ? "" : " (reconnecting)"}`}
+                    >
+                      {!user.connected ? "⏳" : user.deafened ? "🙉" : !user.audioEnabled ? "🔇" : "👤"}
+                      {renderSpeakingRing(user.id)}
+                      {renderFacingArrow(user.facing)}
+                      {renderLinkBadge(user.id)}
+                      {renderSignalBars(user.id)}
+                      {renderTransmitBadge(user)}
+                    </div>
+                  );
+                })}
+
+              {/* Where we're dragging to, until the server confirms the move */}
+              {dragPosition && (
+                <div
+                  className="absolute w-[6%] h-[6%] rounded-full border-2 border-blue-600 border-dashed pointer-events-none"
+                  style={{
+                    left: `${dragPosition.x - 3}%`,
+                    top: `${dragPosition.y - 3}%`,
+                  }}
+                />
+              )}
+
               {/* Hearing range indicator for current user */}
               {currentUser && (
                 <div
                   className="absolute border-2 border-blue-600 border-dashed rounded-full pointer-events-none transition-all duration-300"
                   style={{
-                    left: `${currentUser.position.x - 40}%`,
-                    top: `${currentUser.position.y - 40}%`,
-                    width: "80%",
-                    height: "80%",
+                    left: `${currentUser.position.x - hearingRange}%`,
+                    top: `${currentUser.position.y - hearingRange}%`,
+                    width: `${hearingRange * 2}%`,
+                    height: `${hearingRange * 2}%`,
                   }}
                 />
               )}
@@ -1524,13 +3666,38 @@ export default function SpatialAudioChat() {
               })}
             </div>
             <p className="text-sm text-black mt-2 font-semibold">
-              🔵 You • 🟢 Available • 🔴 Occupied • 🎤 Audio enabled • 🔇 Muted
+              🔵 You • 🟢 Available • 🔴 Occupied • 🔒 Locked • 🎤 Audio enabled • 🔇 Muted • 🙉 Deafened • 🔄 Audio reconnecting • ❌ Audio failed • ⏳ Connection lost, seat held • 📶 Link quality • Pulsing ring: speaking • PTT/VA: push to talk or voice activation, green while sending
             </p>
             <p className="text-sm text-black font-medium">
-              The large dashed circle shows your hearing range. Volume decreases with distance: 🔊 Full (very close) →
-              🔉 High → 🔈 Medium → 🔇 Low (far edge).
+              The large dashed circle shows your hearing range ({Math.round(hearingRange)}%). Volume decreases with distance
+              ({ATTENUATION_MODELS.find((model) => model.id === roomState.settings.attenuation.model)?.name.toLowerCase()} falloff,
+              full within {roomState.settings.attenuation.refDistance}%): 🔊 Full → 🔉 High → 🔈 Medium → 🔇 Low (far edge).
             </p>
 
+            {recentSpeakers.length > 0 && (
+              <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-black">
+                <span className="font-bold">🗣️ Recent speakers:</span>
+                {recentSpeakers.map(({ userId, lastSpokeAt }) => {
+                  const user = roomState.users.find((u) => u.id === userId);
+                  if (!user) return null;
+                  const isSpeaking = speakingUserIds.has(userId);
+                  return (
+                    <span
+                      key={userId}
+                      className={`px-2 py-0.5 border-2 border-black rounded-lg font-medium ${
+                        isSpeaking ? "bg-green-300" : "bg-gray-100"
+                      }`}
+                      title={isSpeaking ? "Speaking now" : `Last heard at ${new Date(lastSpokeAt).toLocaleTimeString()}`}
+                    >
+                      {isSpeaking ? "🔊 " : ""}
+                      {user.name}
+                      {user.id === currentUser?.id ? " (you)" : ""}
+                    </span>
+                  );
+                })}
+              </div>
+            )}
+
             {/* Debug: Spatial Audio Status Panel */}
             {process.env.NODE_ENV === "development" && (
               <div className="mt-2 p-2 bg-gray-100 border border-black rounded text-xs">
@@ -1557,8 +3724,13 @@ export default function SpatialAudioChat() {
           <div className="bg-white border-2 border-black rounded-lg p-6">
             <h2 className="text-xl font-semibold mb-4 text-black">Chat</h2>
             <div className="h-[40vh] overflow-y-auto bg-gray-200 border-2 border-black rounded-lg p-3 mb-3">
-              {chatMessages.map((msg, index) => (
-                <div key={index} className="mb-2">
+              {chatMessages.map((msg) => (
+                <div key={msg.id} className={`mb-2 ${msg.isHistory ? "opacity-60" : ""}`}>
+                  {msg.isHistory && (
+                    <span className="mr-2 text-xs text-gray-700" title="Sent before you arrived">
+                      🕘 {new Date(msg.timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                    </span>
+                  )}
                   <span className="font-bold text-blue-800">{msg.userName}:</span>
                   <span className="ml-2 text-black">{msg.message}</span>
                 </div>
@@ -1581,13 +3753,75 @@ export default function SpatialAudioChat() {
               </button>
             </div>
             <p className="text-xs text-black mt-2 font-medium">
-              Chat messages are only visible to users within hearing range.
+              Chat messages are only visible to users within hearing range. Faded messages were sent before you
+              arrived.
             </p>
           </div>
         </div>
 
+        <div className="bg-white border-2 border-black rounded-lg p-6 mt-4">
+          <div className="flex justify-between items-center">
+            <h2 className="text-xl font-semibold text-black">Connection Quality</h2>
+            <button
+              onClick={() => setShowStats(!showStats)}
+              className="px-3 py-1 bg-white text-black text-sm rounded-lg hover:bg-gray-100 border-2 border-black font-bold"
+            >
+              {showStats ? "📊 Hide Stats" : "📊 Show Stats"}
+            </button>
+          </div>
+          {showStats &&
+            (Object.keys(peerStats).length === 0 ? (
+              <p className="text-sm text-black font-medium mt-4">No connected peers yet.</p>
+            ) : (
+              <table className="w-full mt-4 text-sm text-black border-2 border-black">
+                <thead className="bg-gray-200">
+                  <tr>
+                    {["User", "Quality", "Round trip", "Jitter", "Loss", "Bitrate", "Codec", "Path"].map((heading) => (
+                      <th key={heading} className="p-2 text-left border-b-2 border-black">
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {Object.entries(peerStats).map(([userId, stats]) => (
+                    <tr key={userId} className="border-b border-black">
+                      <td className="p-2 font-bold">{roomState.users.find((u) => u.id === userId)?.name ?? userId}</td>
+                      <td className="p-2">{stats.quality ?? "–"}</td>
+                      <td className="p-2">{formatStat(stats.rttMs, " ms")}</td>
+                      <td className="p-2">{formatStat(stats.jitterMs, " ms")}</td>
+                      <td className="p-2">{formatStat(stats.packetLossPct, "%", 1)}</td>
+                      <td className="p-2">{formatStat(stats.bitrateKbps, " kbps")}</td>
+                      <td className="p-2">{stats.codec ?? "–"}</td>
+                      <td className="p-2" title="host: direct, srflx/prflx: through NAT, relay: through TURN">
+                        {stats.candidateType ?? "–"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ))}
+        </div>
+
         <div className="bg-white border-2 border-black rounded-lg p-6 mt-4">
           <h2 className="text-xl font-semibold mb-4 text-black">Users in Room ({roomState.users.length})</h2>
+          {currentUser && canModerate(currentUser.role) && (
+            <div className="flex flex-wrap items-center gap-1 mb-4 text-xs font-bold text-black">
+              <span className="mr-1">Seat locks:</span>
+              {roomState.seats.map((seat) => (
+                <button
+                  key={seat.id}
+                  onClick={() => setSeatLock(seat.id, !seat.locked)}
+                  className={`px-2 py-1 rounded-lg border-2 border-black ${
+                    seat.locked ? "bg-gray-500 text-white" : "bg-white text-black hover:bg-gray-100"
+                  }`}
+                  title={seat.locked ? "Unlock: anyone can sit here" : "Lock: only moderators can put someone here"}
+                >
+                  {seat.locked ? "🔒" : "🔓"} {seat.label}
+                </button>
+              ))}
+            </div>
+          )}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
             {roomState.users.map((user) => {
               const distance = currentUser
@@ -1596,28 +3830,102 @@ export default function SpatialAudioChat() {
                       Math.pow(user.position.y - currentUser.position.y, 2)
                   )
                 : 0;
+              const distanceGain = getDistanceGain(distance, roomState.settings.attenuation);
 
               return (
                 <div key={user.id} className="p-3 bg-gray-200 border border-black rounded-lg">
                   <div className="flex items-center justify-between">
-                    <span className="font-bold text-black">{user.name}</span>
-                    <span className="text-sm text-black">{user.audioEnabled ? "🎤" : "🔇"}</span>
+                    <span className="font-bold text-black">
+                      {user.role === "owner" && <span title="Room owner">👑 </span>}
+                      {user.role === "moderator" && <span title="Moderator">🛡️ </span>}
+                      {user.name}
+                    </span>
+                    <span className="text-sm text-black">
+                      {!user.connected && <span title="Connection lost, holding seat">⏳ Reconnecting… </span>}
+                      {peerLinkStatus[user.id] === "reconnecting" && <span title="Restoring our audio connection">🔄 </span>}
+                      {peerLinkStatus[user.id] === "failed" && <span title="Audio connection failed">❌ </span>}
+                      {user.linkQuality && user.linkQuality !== "good" && (
+                        <span title="Most of this user's audio connections are struggling">⚠️ {user.linkQuality} link </span>
+                      )}
+                      {speakingUserIds.has(user.id) && <span title="Speaking">🗣️ </span>}
+                      {mutedUserNames.includes(user.name) && <span title="Muted for you only">🔕 </span>}
+                      {user.forceMuted ? <span title="Muted by a moderator">🚫</span> : user.audioEnabled ? "🎤" : "🔇"}
+                      {user.deafened && <span title="Deafened: can't hear anyone"> 🙉</span>}
+                    </span>
                   </div>
-                  <div className="text-sm text-black font-medium">Seat: {user.seatId}</div>
+                  <div className="text-sm text-black font-medium">Seat: {roomState.seats.find((seat) => seat.id === user.seatId)?.label ?? user.seatId}</div>
                   {currentUser && user.id !== currentUser.id && (
                     <div className="text-xs text-black">
                       Distance: {Math.round(distance)}%
-                      {distance <= 80 && (
-                        <span className="text-green-800 font-bold">
-                          {distance <= 15
-                            ? " (🔊 Full)"
-                            : distance <= 30
-                            ? " (🔉 High)"
-                            : distance <= 50
-                            ? " (🔈 Medium)"
-                            : " (🔇 Low)"}
-                        </span>
+                      {distanceGain > 0 && (
+                        <span className="text-green-800 font-bold"> ({describeVolume(distanceGain)})</span>
+                      )}
+                    </div>
+                  )}
+                  {currentUser && user.id !== currentUser.id && (
+                    <div className="flex items-center gap-2 mt-2 text-xs font-bold text-black">
+                      <label className="flex items-center gap-1 flex-1" title="Only changes what you hear">
+                        🔊
+                        <input
+                          type="range"
+                          min={0}
+                          max={MAX_USER_VOLUME}
+                          step={5}
+                          value={userVolumes[user.name] ?? 100}
+                          onChange={(e) => setUserVolume(user.name, Number(e.target.value))}
+                          disabled={mutedUserNames.includes(user.name)}
+                          className="flex-1 min-w-0"
+                        />
+                        <span className="w-10 text-right">{userVolumes[user.name] ?? 100}%</span>
+                      </label>
+                      <button
+                        onClick={() => toggleLocalMute(user.name)}
+                        className={`px-2 py-1 rounded-lg border-2 border-black ${
+                          mutedUserNames.includes(user.name) ? "bg-red-600 text-white" : "bg-white text-black hover:bg-gray-100"
+                        }`}
+                      >
+                        {mutedUserNames.includes(user.name) ? "🔔 Unmute" : "🔕 Mute for me"}
+                      </button>
+                    </div>
+                  )}
+                  {currentUser && canModerateUser(currentUser.role, user.role) && (
+                    <div className="flex flex-wrap items-center gap-1 mt-2 pt-2 border-t border-black text-xs font-bold text-black">
+                      <button
+                        onClick={() => setForceMute(user, !user.forceMuted)}
+                        className="px-2 py-1 bg-white rounded-lg border-2 border-black hover:bg-gray-100"
+                        title={user.forceMuted ? "Let them unmute again" : "Mute them for everyone until you lift it"}
+                      >
+                        {user.forceMuted ? "🎤 Lift mute" : "🚫 Server mute"}
+                      </button>
+                      <select
+                        value=""
+                        onChange={(e) => e.target.value && moveUser(user, e.target.value)}
+                        className="px-1 py-1 bg-white rounded-lg border-2 border-black"
+                      >
+                        <option value="">🪑 Move to…</option>
+                        {roomState.seats
+                          .filter((seat) => !seat.occupied)
+                          .map((seat) => (
+                            <option key={seat.id} value={seat.id}>
+                              {seat.label}
+                              {seat.locked ? " 🔒" : ""}
+                            </option>
+                          ))}
+                      </select>
+                      {currentUser.role === "owner" && (
+                        <button
+                          onClick={() => setUserRole(user, user.role === "moderator" ? "member" : "moderator")}
+                          className="px-2 py-1 bg-white rounded-lg border-2 border-black hover:bg-gray-100"
+                        >
+                          {user.role === "moderator" ? "Remove moderator" : "🛡️ Make moderator"}
+                        </button>
                       )}
+                      <button
+                        onClick={() => kickUser(user)}
+                        className="px-2 py-1 bg-red-600 text-white rounded-lg border-2 border-black hover:bg-red-700"
+                      >
+                        👢 Kick
+                      </button>
                     </div>
                   )}
                 </div>
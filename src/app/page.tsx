@@ -1,5 +1,5 @@
-import SpatialAudioChat from './components/SpatialAudioChat';
+import RoomLobby from './components/RoomLobby';
 
 export default function Home() {
-  return <SpatialAudioChat />;
+  return <RoomLobby />;
 }
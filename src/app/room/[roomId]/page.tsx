@@ -0,0 +1,31 @@
+import { notFound, redirect } from "next/navigation";
+import SpatialAudioChat from "../../components/SpatialAudioChat";
+import { isValidRoomId, normalizeRoomId } from "@/lib/rooms";
+
+interface RoomPageProps {
+  params: Promise<{ roomId: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function RoomPage({ params, searchParams }: RoomPageProps) {
+  const { roomId } = await params;
+  const query = await searchParams;
+  const decodedRoomId = decodeURIComponent(roomId);
+
+  // Layout and settings (?layout=, ?movement=, ?falloff=...) only matter if this visit creates the room;
+  // the server picks out what it understands
+  const creationQuery = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (typeof value === "string") creationQuery.set(key, value);
+  });
+
+  if (!isValidRoomId(decodedRoomId)) {
+    // Send "/room/Team Standup" to "/room/team-standup" instead of opening a separate room
+    const normalizedRoomId = normalizeRoomId(decodedRoomId);
+    if (!normalizedRoomId) notFound();
+    // Keep the settings too, or a room created through the redirect starts with the defaults
+    redirect(`/room/${normalizedRoomId}${creationQuery.size > 0 ? `?${creationQuery}` : ""}`);
+  }
+
+  return <SpatialAudioChat roomId={decodedRoomId} creationQuery={creationQuery.toString()} />;
+}
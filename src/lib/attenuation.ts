@@ -0,0 +1,99 @@
+// Distance attenuation shared by the client (per-peer audio gain) and the
+// PartyKit server (proximity chat delivery). Both sides ask this module, so
+// a voice you can hear and a chat message you can read use the same range.
+// Distances are room percentages, like positions.
+
+export type AttenuationModel = 'linear' | 'inverse' | 'exponential' | 'stepped';
+
+export const ATTENUATION_MODELS: { id: AttenuationModel; name: string; description: string }[] = [
+  { id: 'stepped', name: 'Stepped', description: 'Full volume up close, then a hand-tuned falloff' },
+  { id: 'linear', name: 'Linear', description: 'Fades evenly to silence at the max range' },
+  { id: 'inverse', name: 'Inverse', description: 'Natural falloff that drops quickly then levels out' },
+  { id: 'exponential', name: 'Exponential', description: 'Steeper natural falloff, tight conversations' }
+];
+
+export interface AttenuationSettings {
+  model: AttenuationModel;
+  refDistance: number; // Full volume within this distance
+  rolloff: number; // How fast volume falls beyond refDistance (unused by 'stepped')
+  maxRange: number; // Silent, and out of chat range, from here on
+}
+
+export const DEFAULT_ATTENUATION: AttenuationSettings = {
+  model: 'stepped',
+  refDistance: 15,
+  rolloff: 1,
+  maxRange: 80
+};
+
+// The original 15/30/50/80% curve as (progress from refDistance to maxRange, gain) points
+const STEPPED_CURVE: [number, number][] = [
+  [0, 1],
+  [15 / 65, 0.8],
+  [35 / 65, 0.4],
+  [1, 0]
+];
+
+export function isAttenuationModel(value: unknown): value is AttenuationModel {
+  return ATTENUATION_MODELS.some((model) => model.id === value);
+}
+
+// Where a voice goes silent. Linear with a rolloff above 1 reaches zero before maxRange,
+// and chat and peer connections must stop there too.
+export function getHearingRange(settings: AttenuationSettings): number {
+  const { model, refDistance, rolloff, maxRange } = settings;
+  return model === 'linear' && rolloff > 1
+    ? Math.min(maxRange, refDistance + (maxRange - refDistance) / rolloff)
+    : maxRange;
+}
+
+export function isInHearingRange(distance: number, settings: AttenuationSettings): boolean {
+  return distance < getHearingRange(settings);
+}
+
+// Gain (0-1) for a voice at this distance
+export function getDistanceGain(distance: number, settings: AttenuationSettings): number {
+  if (!isInHearingRange(distance, settings)) return 0;
+
+  const { model, refDistance, rolloff, maxRange } = settings;
+  if (distance <= refDistance) return 1;
+
+  switch (model) {
+    case 'linear':
+      return Math.max(0, 1 - (rolloff * (distance - refDistance)) / (maxRange - refDistance));
+
+    case 'inverse':
+      return refDistance / (refDistance + rolloff * (distance - refDistance));
+
+    case 'exponential':
+      return Math.pow(distance / refDistance, -rolloff);
+
+    case 'stepped': {
+      const progress = (distance - refDistance) / (maxRange - refDistance);
+      for (let i = 1; i < STEPPED_CURVE.length; i++) {
+        const [endProgress, endGain] = STEPPED_CURVE[i];
+        if (progress <= endProgress) {
+          const [startProgress, startGain] = STEPPED_CURVE[i - 1];
+          return startGain + ((endGain - startGain) * (progress - startProgress)) / (endProgress - startProgress);
+        }
+      }
+      return 0;
+    }
+  }
+}
+
+// Fill gaps and reject nonsense (e.g. a reference distance past the max range)
+export function sanitizeAttenuation(input: Partial<AttenuationSettings>): AttenuationSettings {
+  const positive = (value: number | undefined, fallback: number) =>
+    value !== undefined && Number.isFinite(value) && value > 0 ? value : fallback;
+
+  const maxRange = Math.min(200, positive(input.maxRange, DEFAULT_ATTENUATION.maxRange));
+  const refDistance = Math.min(positive(input.refDistance, DEFAULT_ATTENUATION.refDistance), maxRange / 2);
+
+  return {
+    model: isAttenuationModel(input.model) ? input.model : DEFAULT_ATTENUATION.model,
+    refDistance,
+    rolloff: Math.min(10, positive(input.rolloff, DEFAULT_ATTENUATION.rolloff)),
+    maxRange
+  };
+}
@@ -0,0 +1,26 @@
+// Who can hear whom: distance falloff plus acoustic zones. The server uses it
+// to deliver proximity chat and the client to decide which peers are worth a
+// WebRTC connection, so both always agree on who is in range.
+
+import { isInHearingRange, type AttenuationSettings } from './attenuation';
+import { canHearAcrossZones } from './zones';
+import type { Position, ZoneDefinition } from './layouts';
+
+export function getDistance(a: Position, b: Position): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+// rangeMargin stretches the hearing range, e.g. to keep existing connections
+// alive a little past it so people at the edge don't flap
+export function canHear(
+  listener: Position,
+  speaker: Position,
+  attenuation: AttenuationSettings,
+  zones: ZoneDefinition[],
+  rangeMargin = 0
+): boolean {
+  return (
+    isInHearingRange(getDistance(listener, speaker) - rangeMargin, attenuation) &&
+    canHearAcrossZones(zones, listener, speaker)
+  );
+}
@@ -0,0 +1,362 @@
+// Room layouts shared by the PartyKit server (which builds seats from them) and
+// the client (which draws them on the seat map). All coordinates are room
+// percentages (0-100) so layouts scale with the seat map.
+
+export interface Position {
+  x: number;
+  y: number;
+}
+
+// Rooms span 0-100 on both axes
+export const ROOM_SIZE = 100;
+
+export function isInsideRoom(position: Position): boolean {
+  return position.x >= 0 && position.x <= ROOM_SIZE && position.y >= 0 && position.y <= ROOM_SIZE;
+}
+
+export function clampToRoom(position: Position): Position {
+  return {
+    x: Math.min(ROOM_SIZE, Math.max(0, position.x)),
+    y: Math.min(ROOM_SIZE, Math.max(0, position.y))
+  };
+}
+
+// Facing is in degrees clockwise from the top of the map (0 = up, 90 = right)
+export function normalizeFacing(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+export function facingToward(from: Position, to: Position): number {
+  return normalizeFacing(Math.round((Math.atan2(to.x - from.x, from.y - to.y) * 180) / Math.PI));
+}
+
+export interface SeatDefinition {
+  id: string;
+  position: Position;
+  label: string;
+  tableId?: string;
+}
+
+export interface TableDefinition {
+  id: string;
+  label: string;
+  shape: 'round' | 'rect';
+  position: Position; // Center of the table
+  width: number;
+  height: number;
+}
+
+// Acoustic zones (meeting pods, quiet corners). Voices crossing a zone's edge
+// follow its rule: 'isolated' blocks them, 'attenuated' drops them by attenuationDb.
+export interface ZoneDefinition {
+  id: string;
+  label: string;
+  rule: 'isolated' | 'attenuated';
+  attenuationDb?: number; // Only used by 'attenuated'
+  position: Position; // Center of the zone
+  width: number;
+  height: number;
+}
+
+// Walls, partitions and furniture drawn as a polyline (or a polygon when closed).
+// Voices whose line of sight crosses one are attenuated and optionally muffled.
+export interface ObstacleDefinition {
+  id: string;
+  label: string;
+  kind: 'wall' | 'partition' | 'furniture';
+  points: Position[];
+  closed?: boolean;
+  attenuationDb: number;
+  lowPassHz?: number; // Low-pass cutoff for voices heard through it
+}
+
+export interface RoomLayout {
+  id: string;
+  name: string;
+  description: string;
+  seats: SeatDefinition[];
+  tables: TableDefinition[];
+  zones: ZoneDefinition[];
+  obstacles: ObstacleDefinition[];
+}
+
+// What clients receive in room_state: seats are sent separately with their occupancy
+export type LayoutSummary = Omit<RoomLayout, 'seats'>;
+
+export const DEFAULT_LAYOUT_ID = 'grid';
+
+// Seats at a table face its center; the rest face the top of the map (e.g. a lecture hall's podium)
+export function getSeatFacing(seat: { position: Position; tableId?: string }, tables: TableDefinition[]): number {
+  const table = tables.find((t) => t.id === seat.tableId);
+  return table ? facingToward(seat.position, table.position) : 0;
+}
+
+function gridLayout(): RoomLayout {
+  const rows = 4;
+  const cols = 4;
+  const seats: SeatDefinition[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      seats.push({
+        id: `seat-${row}-${col}`,
+        position: {
+          x: 20 + (col * 20), // 20%, 40%, 60%, 80%
+          y: 20 + (row * 20)  // 20%, 40%, 60%, 80%
+        },
+        label: `${String.fromCharCode(65 + row)}${col + 1}` // A1 ... D4
+      });
+    }
+  }
+
+  return {
+    id: 'grid',
+    name: 'Open Grid',
+    description: '16 seats in a 4x4 grid',
+    seats,
+    tables: [],
+    zones: [],
+    obstacles: []
+  };
+}
+
+// The open grid with its far corner set aside for heads-down work
+function quietCornerLayout(): RoomLayout {
+  return {
+    ...gridLayout(),
+    id: 'quiet-corner',
+    name: 'Grid with Quiet Corner',
+    description: '16 seats in a 4x4 grid; voices reaching the corner seat are 12 dB quieter',
+    zones: [
+      {
+        id: 'quiet-corner',
+        label: 'Quiet Corner',
+        rule: 'attenuated',
+        attenuationDb: 12,
+        position: { x: 85, y: 85 }, // Around D4
+        width: 30,
+        height: 30
+      }
+    ]
+  };
+}
+
+// Seats evenly spaced on a circle, starting at the top and going clockwise
+function seatsAroundTable(table: TableDefinition, count: number, radius: number): SeatDefinition[] {
+  return Array.from({ length: count }, (_, index) => {
+    const angle = -Math.PI / 2 + (index * 2 * Math.PI) / count;
+    return {
+      id: `${table.id}-seat-${index}`,
+      position: {
+        x: Math.round((table.position.x + radius * Math.cos(angle)) * 10) / 10,
+        y: Math.round((table.position.y + radius * Math.sin(angle)) * 10) / 10
+      },
+      label: `${table.label} ${index + 1}`,
+      tableId: table.id
+    };
+  });
+}
+
+function roundTableLayout(): RoomLayout {
+  const table: TableDefinition = {
+    id: 'table',
+    label: 'Table',
+    shape: 'round',
+    position: { x: 50, y: 50 },
+    width: 36,
+    height: 36
+  };
+
+  return {
+    id: 'round-table',
+    name: 'Round Table',
+    description: '10 seats around one round table',
+    seats: seatsAroundTable(table, 10, 28),
+    tables: [table],
+    zones: [],
+    obstacles: []
+  };
+}
+
+function lectureHallLayout(): RoomLayout {
+  const podium: TableDefinition = {
+    id: 'podium',
+    label: 'Podium',
+    shape: 'rect',
+    position: { x: 50, y: 20 },
+    width: 24,
+    height: 6
+  };
+
+  const seats: SeatDefinition[] = [
+    { id: 'speaker', position: { x: 50, y: 10 }, label: 'Speaker', tableId: podium.id }
+  ];
+
+  const rows = 3;
+  const cols = 6;
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      seats.push({
+        id: `row-${row}-seat-${col}`,
+        position: {
+          x: 20 + (col * 12), // 20% ... 80%
+          y: 45 + (row * 17)  // 45%, 62%, 79%
+        },
+        label: `Row ${row + 1} Seat ${col + 1}`
+      });
+    }
+  }
+
+  return {
+    id: 'lecture-hall',
+    name: 'Lecture Hall',
+    description: 'A speaker at the podium facing 3 rows of 6',
+    seats,
+    tables: [podium],
+    zones: [],
+    obstacles: []
+  };
+}
+
+function twoClustersLayout(): RoomLayout {
+  const tables: TableDefinition[] = [
+    { id: 'left', label: 'Left', shape: 'rect', position: { x: 28, y: 50 }, width: 16, height: 16 },
+    { id: 'right', label: 'Right', shape: 'rect', position: { x: 72, y: 50 }, width: 16, height: 16 }
+  ];
+
+  const offsets: Position[] = [
+    { x: -14, y: -14 },
+    { x: 14, y: -14 },
+    { x: 14, y: 14 },
+    { x: -14, y: 14 }
+  ];
+
+  const seats = tables.flatMap((table) =>
+    offsets.map((offset, index) => ({
+      id: `${table.id}-seat-${index}`,
+      position: { x: table.position.x + offset.x, y: table.position.y + offset.y },
+      label: `${table.label} ${index + 1}`,
+      tableId: table.id
+    }))
+  );
+
+  // Each table is a private pod: you only hear the people at your own table
+  const zones: ZoneDefinition[] = tables.map((table) => ({
+    id: `${table.id}-pod`,
+    label: `${table.label} Pod`,
+    rule: 'isolated',
+    position: { ...table.position },
+    width: 40,
+    height: 40
+  }));
+
+  return {
+    id: 'two-clusters',
+    name: 'Two Clusters',
+    description: 'Two private tables of 4',
+    seats,
+    tables,
+    zones,
+    obstacles: []
+  };
+}
+
+// Open-plan desks split by a low partition, with a walled meeting room in the
+// top-right corner. The meeting room's doorway is a gap in its west wall.
+function openOfficeLayout(): RoomLayout {
+  const seats: SeatDefinition[] = [];
+
+  const deskRows = [20, 36, 66, 82];
+  const deskCols = [15, 30, 45];
+  deskRows.forEach((y, row) => {
+    deskCols.forEach((x, col) => {
+      seats.push({
+        id: `desk-${row}-${col}`,
+        position: { x, y },
+        label: `Desk ${row * deskCols.length + col + 1}`
+      });
+    });
+  });
+
+  const meetingTable: TableDefinition = {
+    id: 'meeting',
+    label: 'Meeting',
+    shape: 'rect',
+    position: { x: 83, y: 27 },
+    width: 14,
+    height: 14
+  };
+
+  const offsets: Position[] = [
+    { x: -11, y: -11 },
+    { x: 11, y: -11 },
+    { x: 11, y: 11 },
+    { x: -11, y: 11 }
+  ];
+  offsets.forEach((offset, index) => {
+    seats.push({
+      id: `meeting-seat-${index}`,
+      position: { x: meetingTable.position.x + offset.x, y: meetingTable.position.y + offset.y },
+      label: `Meeting ${index + 1}`,
+      tableId: meetingTable.id
+    });
+  });
+
+  const wall = { kind: 'wall' as const, attenuationDb: 24, lowPassHz: 700 };
+
+  return {
+    id: 'open-office',
+    name: 'Open Office',
+    description: '12 desks and a walled meeting room for 4',
+    seats,
+    tables: [meetingTable],
+    zones: [],
+    obstacles: [
+      { id: 'meeting-wall-north', label: 'Meeting Room Wall', points: [{ x: 65, y: 0 }, { x: 65, y: 22 }], ...wall },
+      {
+        id: 'meeting-wall-south',
+        label: 'Meeting Room Wall',
+        points: [{ x: 65, y: 34 }, { x: 65, y: 52 }, { x: 100, y: 52 }],
+        ...wall
+      },
+      {
+        id: 'desk-partition',
+        label: 'Partition',
+        kind: 'partition',
+        points: [{ x: 5, y: 51 }, { x: 55, y: 51 }],
+        attenuationDb: 6,
+        lowPassHz: 2500
+      },
+      {
+        id: 'bookshelf',
+        label: 'Bookshelf',
+        kind: 'furniture',
+        points: [{ x: 62, y: 70 }, { x: 66, y: 70 }, { x: 66, y: 90 }, { x: 62, y: 90 }],
+        closed: true,
+        attenuationDb: 4
+      }
+    ]
+  };
+}
+
+export const LAYOUT_PRESETS: RoomLayout[] = [
+  gridLayout(),
+  quietCornerLayout(),
+  roundTableLayout(),
+  lectureHallLayout(),
+  twoClustersLayout(),
+  openOfficeLayout()
+];
+
+export function getLayoutPreset(layoutId?: string | null): RoomLayout {
+  return (
+    LAYOUT_PRESETS.find((layout) => layout.id === layoutId) ??
+    LAYOUT_PRESETS.find((layout) => layout.id === DEFAULT_LAYOUT_ID)!
+  );
+}
+
+export function summarizeLayout(layout: RoomLayout): LayoutSummary {
+  const summary: Partial<RoomLayout> = { ...layout };
+  delete summary.seats;
+  return summary as LayoutSummary;
+}
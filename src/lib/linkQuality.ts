@@ -0,0 +1,45 @@
+// Audio link quality. Each client rates its own peer connections from WebRTC
+// stats and reports a one-word summary to the server, so everyone can see who
+// has a bad link without opening the stats panel.
+
+export type LinkQuality = 'good' | 'fair' | 'poor';
+
+const LINK_QUALITIES: LinkQuality[] = ['good', 'fair', 'poor']; // Best first
+
+export interface LinkMetrics {
+  rttMs: number | null;
+  jitterMs: number | null;
+  packetLossPct: number | null; // Over the last polling interval
+}
+
+// Thresholds where voice calls start to sound off (fair) and break up (poor)
+const FAIR_LIMITS: LinkMetrics = { rttMs: 250, jitterMs: 30, packetLossPct: 2 };
+const POOR_LIMITS: LinkMetrics = { rttMs: 500, jitterMs: 60, packetLossPct: 8 };
+
+export function isLinkQuality(value: unknown): value is LinkQuality {
+  return LINK_QUALITIES.includes(value as LinkQuality);
+}
+
+function exceeds(metrics: LinkMetrics, limits: LinkMetrics): boolean {
+  return (Object.keys(limits) as (keyof LinkMetrics)[]).some((key) => {
+    const value = metrics[key];
+    const limit = limits[key];
+    return value !== null && limit !== null && value > limit;
+  });
+}
+
+// Null until there's at least one measurement to go on
+export function rateLinkQuality(metrics: LinkMetrics): LinkQuality | null {
+  if (metrics.rttMs === null && metrics.jitterMs === null && metrics.packetLossPct === null) return null;
+  if (exceeds(metrics, POOR_LIMITS)) return 'poor';
+  if (exceeds(metrics, FAIR_LIMITS)) return 'fair';
+  return 'good';
+}
+
+// The median link, rounding towards worse. One bad peer shouldn't brand us as the
+// bad link, but if most of our links are bad the problem is probably on our end.
+export function summarizeLinkQuality(qualities: LinkQuality[]): LinkQuality | null {
+  if (qualities.length === 0) return null;
+  const sorted = [...qualities].sort((a, b) => LINK_QUALITIES.indexOf(a) - LINK_QUALITIES.indexOf(b));
+  return sorted[Math.floor(sorted.length / 2)];
+}
@@ -0,0 +1,53 @@
+// Line-of-sight occlusion from layout obstacles. The client applies it to each
+// peer's gain and low-pass filter; it's shared so any consumer of the layout
+// judges walls the same way.
+
+import type { ObstacleDefinition, Position } from './layouts';
+import { dbToGain } from './zones';
+
+export interface Occlusion {
+  gain: number; // Multiplier (0-1) on top of distance and zone gain
+  lowPassHz: number | null; // Lowest cutoff among crossed obstacles, null if unfiltered
+}
+
+// Twice the signed area of triangle o-a-b: which side of o->a the point b is on
+function cross(o: Position, a: Position, b: Position): number {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+}
+
+// Proper crossings only: grazing an obstacle's end point doesn't count
+export function segmentsIntersect(p1: Position, p2: Position, q1: Position, q2: Position): boolean {
+  return cross(q1, q2, p1) * cross(q1, q2, p2) < 0 && cross(p1, p2, q1) * cross(p1, p2, q2) < 0;
+}
+
+function obstacleSegments(obstacle: ObstacleDefinition): [Position, Position][] {
+  const segments: [Position, Position][] = [];
+  for (let i = 1; i < obstacle.points.length; i++) {
+    segments.push([obstacle.points[i - 1], obstacle.points[i]]);
+  }
+  if (obstacle.closed && obstacle.points.length > 2) {
+    segments.push([obstacle.points[obstacle.points.length - 1], obstacle.points[0]]);
+  }
+  return segments;
+}
+
+export function blocksLineOfSight(obstacle: ObstacleDefinition, from: Position, to: Position): boolean {
+  return obstacleSegments(obstacle).some(([a, b]) => segmentsIntersect(from, to, a, b));
+}
+
+// Each obstacle counts once, so walking through both sides of a bookshelf
+// isn't attenuated twice
+export function getOcclusion(obstacles: ObstacleDefinition[], listener: Position, speaker: Position): Occlusion {
+  let gain = 1;
+  let lowPassHz: number | null = null;
+
+  for (const obstacle of obstacles) {
+    if (!blocksLineOfSight(obstacle, listener, speaker)) continue;
+    gain *= dbToGain(-obstacle.attenuationDb);
+    if (obstacle.lowPassHz !== undefined) {
+      lowPassHz = lowPassHz === null ? obstacle.lowPassHz : Math.min(lowPassHz, obstacle.lowPassHz);
+    }
+  }
+
+  return { gain, lowPassHz };
+}
@@ -0,0 +1,126 @@
+// Personal audio preferences. They're kept in the browser (not sent to the server)
+// and can be exported to JSON to carry them to another browser.
+
+import { MAX_NAME_LENGTH, isTransmitMode, type TransmitMode } from './protocol';
+
+// How peers are placed in stereo. Distance is always handled by our own gain,
+// so the PannerNode only decides direction.
+export type SpatialMode = 'hrtf' | 'equalpower' | 'mono';
+
+// Browser processing applied to the mic before we send it
+export interface MicProcessing {
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+export interface Preferences {
+  userName: string;
+  inputDeviceId: string | null; // Null means the system default
+  outputDeviceId: string | null;
+  micProcessing: MicProcessing;
+  transmitMode: TransmitMode;
+  pttKey: string; // KeyboardEvent.code, so it works on any keyboard layout
+  vadThreshold: number; // Mic meter level (0-100) that opens the gate
+  vadHangoverMs: number; // Keep sending this long after the voice drops, so word endings aren't clipped
+  masterVolume: number; // Percent, applied on top of every peer's distance gain
+  spatialMode: SpatialMode;
+  userVolumes: Record<string, number>; // Percent, keyed by display name since user ids change every visit
+  mutedUserNames: string[]; // Muted for us only; their volume is kept for when they're unmuted
+}
+
+// Bumped when a field changes meaning; files without it are still read field by field
+export const PREFERENCES_VERSION = 1;
+
+export const MAX_USER_VOLUME = 200;
+export const VAD_THRESHOLD_RANGE = { min: 1, max: 60 };
+export const VAD_HANGOVER_RANGE_MS = { min: 100, max: 3000 };
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  userName: '',
+  inputDeviceId: null,
+  outputDeviceId: null,
+  micProcessing: { echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+  transmitMode: 'open',
+  pttKey: 'KeyT',
+  vadThreshold: 12,
+  vadHangoverMs: 600,
+  masterVolume: 100,
+  spatialMode: 'hrtf',
+  userVolumes: {},
+  mutedUserNames: []
+};
+
+const SPATIAL_MODES: SpatialMode[] = ['hrtf', 'equalpower', 'mono'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function clampNumber(value: unknown, min: number, max: number, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+}
+
+function deviceId(value: unknown): string | null {
+  return typeof value === 'string' && value !== '' ? value : null;
+}
+
+// Stored or imported preferences may come from an older version or be hand-edited,
+// so every field falls back to its default on its own. Null if it isn't preferences at all.
+export function sanitizePreferences(value: unknown): Preferences | null {
+  if (!isRecord(value)) return null;
+
+  const processing = isRecord(value.micProcessing) ? value.micProcessing : {};
+  const volumes = isRecord(value.userVolumes) ? value.userVolumes : {};
+  const userVolumes: Record<string, number> = {};
+  for (const [name, volume] of Object.entries(volumes)) {
+    if (typeof volume === 'number' && Number.isFinite(volume)) {
+      userVolumes[name] = clampNumber(volume, 0, MAX_USER_VOLUME, 100);
+    }
+  }
+
+  return {
+    userName: typeof value.userName === 'string' ? value.userName.slice(0, MAX_NAME_LENGTH) : DEFAULT_PREFERENCES.userName,
+    inputDeviceId: deviceId(value.inputDeviceId),
+    outputDeviceId: deviceId(value.outputDeviceId),
+    micProcessing: {
+      echoCancellation: typeof processing.echoCancellation === 'boolean' ? processing.echoCancellation : true,
+      noiseSuppression: typeof processing.noiseSuppression === 'boolean' ? processing.noiseSuppression : true,
+      autoGainControl: typeof processing.autoGainControl === 'boolean' ? processing.autoGainControl : true
+    },
+    transmitMode: isTransmitMode(value.transmitMode) ? value.transmitMode : DEFAULT_PREFERENCES.transmitMode,
+    pttKey: typeof value.pttKey === 'string' && value.pttKey !== '' ? value.pttKey : DEFAULT_PREFERENCES.pttKey,
+    vadThreshold: clampNumber(
+      value.vadThreshold,
+      VAD_THRESHOLD_RANGE.min,
+      VAD_THRESHOLD_RANGE.max,
+      DEFAULT_PREFERENCES.vadThreshold
+    ),
+    vadHangoverMs: clampNumber(
+      value.vadHangoverMs,
+      VAD_HANGOVER_RANGE_MS.min,
+      VAD_HANGOVER_RANGE_MS.max,
+      DEFAULT_PREFERENCES.vadHangoverMs
+    ),
+    masterVolume: clampNumber(value.masterVolume, 0, 100, DEFAULT_PREFERENCES.masterVolume),
+    spatialMode: SPATIAL_MODES.includes(value.spatialMode as SpatialMode)
+      ? (value.spatialMode as SpatialMode)
+      : DEFAULT_PREFERENCES.spatialMode,
+    userVolumes,
+    mutedUserNames: Array.isArray(value.mutedUserNames)
+      ? [...new Set(value.mutedUserNames.filter((name): name is string => typeof name === 'string'))]
+      : []
+  };
+}
+
+export function exportPreferences(preferences: Preferences): string {
+  return JSON.stringify({ version: PREFERENCES_VERSION, ...preferences }, null, 2);
+}
+
+export function importPreferences(json: string): Preferences | null {
+  try {
+    return sanitizePreferences(JSON.parse(json));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,608 @@
+// Wire protocol between the PartyKit server (party/index.ts) and the client.
+// Every message is JSON `{ type, payload }`. Both sides parse incoming messages
+// with the runtime checks below instead of trusting casts, so a malformed or
+// outdated message is rejected with an error code rather than half-handled.
+
+import {
+  normalizeFacing,
+  type LayoutSummary,
+  type ObstacleDefinition,
+  type Position,
+  type TableDefinition,
+  type ZoneDefinition
+} from "./layouts";
+import type { RoomSettings } from "./roomSettings";
+import { isAttenuationModel, type AttenuationSettings } from "./attenuation";
+import { isLinkQuality, type LinkQuality } from "./linkQuality";
+import { isUserRole, type UserRole } from "./roles";
+
+export const MAX_NAME_LENGTH = 40;
+export const MAX_CHAT_MESSAGE_LENGTH = 500;
+
+// ---- Shared data types ----
+
+// How a user's unmuted mic reaches others: always, while holding a key, or when they speak
+export type TransmitMode = 'open' | 'push_to_talk' | 'voice_activation';
+
+export interface Seat {
+  id: string;
+  position: Position;
+  label: string;
+  tableId?: string;
+  occupied: boolean;
+  userId?: string;
+  locked: boolean; // Only moderators can put someone here; whoever sits here already stays
+}
+
+export interface User {
+  id: string;
+  name: string;
+  position: Position;
+  facing: number; // Degrees clockwise from the top of the map, see layouts.ts
+  seatId?: string;
+  audioEnabled: boolean;
+  deafened: boolean; // Can't hear anyone, independent of their own mic
+  connected: boolean; // false while the server holds the seat for a reconnect
+  linkQuality: LinkQuality | null; // Self-reported summary of this user's audio links, null until measured
+  transmitMode: TransmitMode;
+  transmitting: boolean; // Push-to-talk held or voice detected (always true in open mode); heard only if audioEnabled too
+  role: UserRole;
+  forceMuted: boolean; // Muted by a moderator: audioEnabled stays false until they lift it
+}
+
+export interface ChatLogEntry {
+  id: string;
+  userId: string;
+  userName: string;
+  message: string;
+  position: Position;
+  timestamp: number;
+}
+
+export interface RoomStatePayload {
+  roomId: string;
+  layout: LayoutSummary | null;
+  settings: RoomSettings;
+  seats: Seat[];
+  users: User[];
+}
+
+// A plain RTCIceServer, restated so the server doesn't depend on DOM types
+export interface IceServerConfig {
+  urls: string | string[];
+  username?: string;
+  credential?: string;
+}
+
+export interface IceConfigPayload {
+  iceServers: IceServerConfig[];
+  expiresAt: number | null; // When TURN credentials stop working (ms), null without TURN
+}
+
+export type ErrorCode =
+  | 'invalid_json'
+  | 'invalid_message'
+  | 'unknown_type'
+  | 'not_joined'
+  | 'already_joined'
+  | 'seat_unavailable'
+  | 'out_of_bounds'
+  | 'movement_not_allowed'
+  | 'session_expired'
+  | 'session_in_use'
+  | 'forbidden'
+  | 'unknown_user';
+
+// ---- Client → server ----
+
+export interface SignalingTarget {
+  targetUserId: string;
+}
+
+export type ClientMessage =
+  | { type: 'join'; payload: { name: string; seatId: string; adminSecret?: string } } // The secret makes us owner
+  | { type: 'resume'; payload: { token: string } }
+  | { type: 'leave' }
+  | { type: 'ice_config_request' } // Fresh TURN credentials before the current ones expire
+  | { type: 'move'; payload: { seatId: string } }
+  | { type: 'move_to'; payload: { position: Position } } // Free movement, see RoomSettings.freeMovement
+  | { type: 'set_facing'; payload: { facing: number } }
+  | { type: 'audio_offer'; payload: SignalingTarget & { offer: RTCSessionDescriptionInit } }
+  | { type: 'audio_answer'; payload: SignalingTarget & { answer: RTCSessionDescriptionInit } }
+  | { type: 'ice_candidate'; payload: SignalingTarget & { candidate: RTCIceCandidateInit } }
+  | { type: 'audio_hangup'; payload: SignalingTarget } // Closing or declining a peer connection, e.g. out of range
+  | { type: 'set_audio'; payload: { enabled: boolean } }
+  | { type: 'set_deafen'; payload: { deafened: boolean } }
+  | { type: 'set_link_quality'; payload: { quality: LinkQuality | null } }
+  | { type: 'set_transmit'; payload: { mode: TransmitMode; transmitting: boolean } }
+  | { type: 'chat'; payload: { message: string } }
+  // Moderation, checked against the sender's role on the server (see roles.ts)
+  | { type: 'set_role'; payload: { targetUserId: string; role: 'moderator' | 'member' } } // Owner only
+  | { type: 'kick'; payload: { targetUserId: string } }
+  | { type: 'force_mute'; payload: { targetUserId: string; muted: boolean } }
+  | { type: 'move_user'; payload: { targetUserId: string; seatId: string } } // Locked seats allowed
+  | { type: 'set_seat_lock'; payload: { seatId: string; locked: boolean } };
+
+export type ClientPayload<T extends ClientMessage['type']> =
+  Extract<ClientMessage, { type: T }> extends { payload: infer P } ? P : never;
+
+// ---- Server → client ----
+
+export type SignalingMessage = Extract<
+  ClientMessage,
+  { type: 'audio_offer' | 'audio_answer' | 'ice_candidate' | 'audio_hangup' }
+>;
+
+// Signaling messages are relayed with the sender filled in by the server
+export interface RelayedSignal extends SignalingTarget {
+  fromUserId: string;
+}
+
+export type ServerMessage =
+  | { type: 'room_state'; payload: RoomStatePayload }
+  | { type: 'session'; payload: { token: string; user: User; resumed: boolean } }
+  | { type: 'ice_config'; payload: IceConfigPayload }
+  | { type: 'user_moved'; payload: { userId: string; position: Position; facing: number } } // Walking or turning without a seat change
+  | { type: 'user_transmit'; payload: { userId: string; mode: TransmitMode; transmitting: boolean } } // Push-to-talk and voice activation, too frequent for room_state
+  | { type: 'kicked'; payload: { byName: string } } // Sent just before we're removed from the room
+  | { type: 'chat_message'; payload: ChatLogEntry }
+  | { type: 'chat_history'; payload: { messages: ChatLogEntry[] } }
+  | { type: 'audio_offer'; payload: RelayedSignal & { offer: RTCSessionDescriptionInit } }
+  | { type: 'audio_answer'; payload: RelayedSignal & { answer: RTCSessionDescriptionInit } }
+  | { type: 'ice_candidate'; payload: RelayedSignal & { candidate: RTCIceCandidateInit } }
+  | { type: 'audio_hangup'; payload: RelayedSignal }
+  | { type: 'error'; payload: { code: ErrorCode; message: string } };
+
+export type ParseResult<T> =
+  | { ok: true; message: T }
+  | { ok: false; code: ErrorCode; error: string };
+
+export function encodeMessage(message: ClientMessage | ServerMessage): string {
+  return JSON.stringify(message);
+}
+
+// ---- Runtime checks ----
+
+type Guard<T> = (value: unknown) => value is T;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isBoolean(value: unknown): value is boolean {
+  return typeof value === 'boolean';
+}
+
+function isOptional<T>(guard: Guard<T>): Guard<T | undefined> {
+  return (value): value is T | undefined => value === undefined || guard(value);
+}
+
+function isArrayOf<T>(guard: Guard<T>): Guard<T[]> {
+  return (value): value is T[] => Array.isArray(value) && value.every(guard);
+}
+
+function isTrimmedText(value: unknown, maxLength: number): value is string {
+  return isString(value) && value.trim().length > 0 && value.trim().length <= maxLength;
+}
+
+function isPosition(value: unknown): value is Position {
+  return isRecord(value) && isNumber(value.x) && isNumber(value.y);
+}
+
+function isSeat(value: unknown): value is Seat {
+  return (
+    isRecord(value) &&
+    isString(value.id) &&
+    isPosition(value.position) &&
+    isString(value.label) &&
+    isOptional(isString)(value.tableId) &&
+    isBoolean(value.occupied) &&
+    isOptional(isString)(value.userId) &&
+    isBoolean(value.locked)
+  );
+}
+
+export function isTransmitMode(value: unknown): value is TransmitMode {
+  return value === 'open' || value === 'push_to_talk' || value === 'voice_activation';
+}
+
+function isUser(value: unknown): value is User {
+  return (
+    isRecord(value) &&
+    isString(value.id) &&
+    isString(value.name) &&
+    isPosition(value.position) &&
+    isNumber(value.facing) &&
+    isOptional(isString)(value.seatId) &&
+    isBoolean(value.audioEnabled) &&
+    isBoolean(value.deafened) &&
+    isBoolean(value.connected) &&
+    (value.linkQuality === null || isLinkQuality(value.linkQuality)) &&
+    isTransmitMode(value.transmitMode) &&
+    isBoolean(value.transmitting) &&
+    isUserRole(value.role) &&
+    isBoolean(value.forceMuted)
+  );
+}
+
+function isTable(value: unknown): value is TableDefinition {
+  return (
+    isRecord(value) &&
+    isString(value.id) &&
+    isString(value.label) &&
+    (value.shape === 'round' || value.shape === 'rect') &&
+    isPosition(value.position) &&
+    isNumber(value.width) &&
+    isNumber(value.height)
+  );
+}
+
+function isZone(value: unknown): value is ZoneDefinition {
+  return (
+    isRecord(value) &&
+    isString(value.id) &&
+    isString(value.label) &&
+    (value.rule === 'isolated' || value.rule === 'attenuated') &&
+    isOptional(isNumber)(value.attenuationDb) &&
+    isPosition(value.position) &&
+    isNumber(value.width) &&
+    isNumber(value.height)
+  );
+}
+
+function isObstacle(value: unknown): value is ObstacleDefinition {
+  return (
+    isRecord(value) &&
+    isString(value.id) &&
+    isString(value.label) &&
+    (value.kind === 'wall' || value.kind === 'partition' || value.kind === 'furniture') &&
+    isArrayOf(isPosition)(value.points) &&
+    isOptional(isBoolean)(value.closed) &&
+    isNumber(value.attenuationDb) &&
+    isOptional(isNumber)(value.lowPassHz)
+  );
+}
+
+function isLayoutSummary(value: unknown): value is LayoutSummary {
+  return (
+    isRecord(value) &&
+    isString(value.id) &&
+    isString(value.name) &&
+    isString(value.description) &&
+    isArrayOf(isTable)(value.tables) &&
+    isArrayOf(isZone)(value.zones) &&
+    isArrayOf(isObstacle)(value.obstacles)
+  );
+}
+
+function isAttenuationSettings(value: unknown): value is AttenuationSettings {
+  return (
+    isRecord(value) &&
+    isAttenuationModel(value.model) &&
+    isNumber(value.refDistance) &&
+    isNumber(value.rolloff) &&
+    isNumber(value.maxRange)
+  );
+}
+
+function isRoomSettings(value: unknown): value is RoomSettings {
+  return (
+    isRecord(value) &&
+    isAttenuationSettings(value.attenuation) &&
+    isBoolean(value.freeMovement) &&
+    isNumber(value.maxPeers)
+  );
+}
+
+function isChatLogEntry(value: unknown): value is ChatLogEntry {
+  return (
+    isRecord(value) &&
+    isString(value.id) &&
+    isString(value.userId) &&
+    isString(value.userName) &&
+    isString(value.message) &&
+    isPosition(value.position) &&
+    isNumber(value.timestamp)
+  );
+}
+
+function isSessionDescription(value: unknown): value is RTCSessionDescriptionInit {
+  return (
+    isRecord(value) &&
+    (value.type === 'offer' || value.type === 'answer' || value.type === 'pranswer' || value.type === 'rollback') &&
+    isOptional(isString)(value.sdp)
+  );
+}
+
+function isIceCandidate(value: unknown): value is RTCIceCandidateInit {
+  return (
+    isRecord(value) &&
+    isOptional(isString)(value.candidate) &&
+    (value.sdpMid === undefined || value.sdpMid === null || isString(value.sdpMid)) &&
+    (value.sdpMLineIndex === undefined || value.sdpMLineIndex === null || isNumber(value.sdpMLineIndex))
+  );
+}
+
+function isIceServer(value: unknown): value is IceServerConfig {
+  return (
+    isRecord(value) &&
+    (isString(value.urls) || isArrayOf(isString)(value.urls)) &&
+    isOptional(isString)(value.username) &&
+    isOptional(isString)(value.credential)
+  );
+}
+
+const ERROR_CODES: ErrorCode[] = [
+  'invalid_json',
+  'invalid_message',
+  'unknown_type',
+  'not_joined',
+  'already_joined',
+  'seat_unavailable',
+  'out_of_bounds',
+  'movement_not_allowed',
+  'session_expired',
+  'session_in_use',
+  'forbidden',
+  'unknown_user'
+];
+
+function isErrorCode(value: unknown): value is ErrorCode {
+  return ERROR_CODES.includes(value as ErrorCode);
+}
+
+function ok<T>(message: T): ParseResult<T> {
+  return { ok: true, message };
+}
+
+function fail<T>(code: ErrorCode, error: string): ParseResult<T> {
+  return { ok: false, code, error };
+}
+
+function decode(raw: unknown): ParseResult<{ type: string; payload: unknown }> {
+  if (!isString(raw)) return fail('invalid_message', 'Only text messages are supported');
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return fail('invalid_json', 'Message is not valid JSON');
+  }
+
+  if (!isRecord(data) || !isString(data.type)) {
+    return fail('invalid_message', 'Message must be an object with a string "type"');
+  }
+  return ok({ type: data.type, payload: data.payload });
+}
+
+export function parseClientMessage(raw: unknown): ParseResult<ClientMessage> {
+  const decoded = decode(raw);
+  if (!decoded.ok) return decoded;
+
+  const { type, payload } = decoded.message;
+  const invalid = (expected: string) => fail<ClientMessage>('invalid_message', `Invalid ${type} payload, expected ${expected}`);
+
+  switch (type) {
+    case 'join':
+      if (
+        !isRecord(payload) ||
+        !isTrimmedText(payload.name, MAX_NAME_LENGTH) ||
+        !isString(payload.seatId) ||
+        !isOptional(isString)(payload.adminSecret)
+      ) {
+        return invalid(`{ name: 1-${MAX_NAME_LENGTH} characters, seatId: string, adminSecret?: string }`);
+      }
+      return ok({
+        type,
+        payload: {
+          name: payload.name.trim(),
+          seatId: payload.seatId,
+          ...(payload.adminSecret !== undefined ? { adminSecret: payload.adminSecret } : {})
+        }
+      });
+
+    case 'resume':
+      if (!isRecord(payload) || !isString(payload.token)) return invalid('{ token: string }');
+      return ok({ type, payload: { token: payload.token } });
+
+    case 'leave':
+    case 'ice_config_request':
+      return ok({ type });
+
+    case 'move':
+      if (!isRecord(payload) || !isString(payload.seatId)) return invalid('{ seatId: string }');
+      return ok({ type, payload: { seatId: payload.seatId } });
+
+    case 'move_to':
+      if (!isRecord(payload) || !isPosition(payload.position)) return invalid('{ position: { x: number, y: number } }');
+      return ok({ type, payload: { position: { x: payload.position.x, y: payload.position.y } } });
+
+    case 'set_facing':
+      if (!isRecord(payload) || !isNumber(payload.facing)) return invalid('{ facing: number }');
+      return ok({ type, payload: { facing: normalizeFacing(payload.facing) } });
+
+    case 'audio_offer':
+      if (!isRecord(payload) || !isString(payload.targetUserId) || !isSessionDescription(payload.offer)) {
+        return invalid('{ targetUserId: string, offer: RTCSessionDescriptionInit }');
+      }
+      return ok({ type, payload: { targetUserId: payload.targetUserId, offer: payload.offer } });
+
+    case 'audio_answer':
+      if (!isRecord(payload) || !isString(payload.targetUserId) || !isSessionDescription(payload.answer)) {
+        return invalid('{ targetUserId: string, answer: RTCSessionDescriptionInit }');
+      }
+      return ok({ type, payload: { targetUserId: payload.targetUserId, answer: payload.answer } });
+
+    case 'ice_candidate':
+      if (!isRecord(payload) || !isString(payload.targetUserId) || !isIceCandidate(payload.candidate)) {
+        return invalid('{ targetUserId: string, candidate: RTCIceCandidateInit }');
+      }
+      return ok({ type, payload: { targetUserId: payload.targetUserId, candidate: payload.candidate } });
+
+    case 'audio_hangup':
+      if (!isRecord(payload) || !isString(payload.targetUserId)) return invalid('{ targetUserId: string }');
+      return ok({ type, payload: { targetUserId: payload.targetUserId } });
+
+    case 'set_audio':
+      if (!isRecord(payload) || !isBoolean(payload.enabled)) return invalid('{ enabled: boolean }');
+      return ok({ type, payload: { enabled: payload.enabled } });
+
+    case 'set_deafen':
+      if (!isRecord(payload) || !isBoolean(payload.deafened)) return invalid('{ deafened: boolean }');
+      return ok({ type, payload: { deafened: payload.deafened } });
+
+    case 'set_link_quality':
+      if (!isRecord(payload) || !(payload.quality === null || isLinkQuality(payload.quality))) {
+        return invalid("{ quality: 'good' | 'fair' | 'poor' | null }");
+      }
+      return ok({ type, payload: { quality: payload.quality } });
+
+    case 'set_transmit':
+      if (!isRecord(payload) || !isTransmitMode(payload.mode) || !isBoolean(payload.transmitting)) {
+        return invalid("{ mode: 'open' | 'push_to_talk' | 'voice_activation', transmitting: boolean }");
+      }
+      return ok({ type, payload: { mode: payload.mode, transmitting: payload.transmitting } });
+
+    case 'chat':
+      if (!isRecord(payload) || !isTrimmedText(payload.message, MAX_CHAT_MESSAGE_LENGTH)) {
+        return invalid(`{ message: 1-${MAX_CHAT_MESSAGE_LENGTH} characters }`);
+      }
+      return ok({ type, payload: { message: payload.message.trim() } });
+
+    case 'set_role':
+      if (!isRecord(payload) || !isString(payload.targetUserId) || !(payload.role === 'moderator' || payload.role === 'member')) {
+        return invalid("{ targetUserId: string, role: 'moderator' | 'member' }");
+      }
+      return ok({ type, payload: { targetUserId: payload.targetUserId, role: payload.role } });
+
+    case 'kick':
+      if (!isRecord(payload) || !isString(payload.targetUserId)) return invalid('{ targetUserId: string }');
+      return ok({ type, payload: { targetUserId: payload.targetUserId } });
+
+    case 'force_mute':
+      if (!isRecord(payload) || !isString(payload.targetUserId) || !isBoolean(payload.muted)) {
+        return invalid('{ targetUserId: string, muted: boolean }');
+      }
+      return ok({ type, payload: { targetUserId: payload.targetUserId, muted: payload.muted } });
+
+    case 'move_user':
+      if (!isRecord(payload) || !isString(payload.targetUserId) || !isString(payload.seatId)) {
+        return invalid('{ targetUserId: string, seatId: string }');
+      }
+      return ok({ type, payload: { targetUserId: payload.targetUserId, seatId: payload.seatId } });
+
+    case 'set_seat_lock':
+      if (!isRecord(payload) || !isString(payload.seatId) || !isBoolean(payload.locked)) {
+        return invalid('{ seatId: string, locked: boolean }');
+      }
+      return ok({ type, payload: { seatId: payload.seatId, locked: payload.locked } });
+
+    default:
+      return fail('unknown_type', `Unknown message type: ${type}`);
+  }
+}
+
+export function parseServerMessage(raw: unknown): ParseResult<ServerMessage> {
+  const decoded = decode(raw);
+  if (!decoded.ok) return decoded;
+
+  const { type, payload } = decoded.message;
+  const invalid = () => fail<ServerMessage>('invalid_message', `Invalid ${type} payload from server`);
+  const isRelayed = (value: unknown): value is Record<string, unknown> & RelayedSignal =>
+    isRecord(value) && isString(value.targetUserId) && isString(value.fromUserId);
+
+  switch (type) {
+    case 'room_state':
+      if (
+        !isRecord(payload) ||
+        !isString(payload.roomId) ||
+        !(payload.layout === null || isLayoutSummary(payload.layout)) ||
+        !isRoomSettings(payload.settings) ||
+        !isArrayOf(isSeat)(payload.seats) ||
+        !isArrayOf(isUser)(payload.users)
+      ) {
+        return invalid();
+      }
+      return ok({
+        type,
+        payload: {
+          roomId: payload.roomId,
+          layout: payload.layout,
+          settings: payload.settings,
+          seats: payload.seats,
+          users: payload.users
+        }
+      });
+
+    case 'session':
+      if (!isRecord(payload) || !isString(payload.token) || !isUser(payload.user) || !isBoolean(payload.resumed)) {
+        return invalid();
+      }
+      return ok({ type, payload: { token: payload.token, user: payload.user, resumed: payload.resumed } });
+
+    case 'ice_config':
+      if (
+        !isRecord(payload) ||
+        !isArrayOf(isIceServer)(payload.iceServers) ||
+        !(payload.expiresAt === null || isNumber(payload.expiresAt))
+      ) {
+        return invalid();
+      }
+      return ok({ type, payload: { iceServers: payload.iceServers, expiresAt: payload.expiresAt } });
+
+    case 'user_moved':
+      if (!isRecord(payload) || !isString(payload.userId) || !isPosition(payload.position) || !isNumber(payload.facing)) {
+        return invalid();
+      }
+      return ok({ type, payload: { userId: payload.userId, position: payload.position, facing: payload.facing } });
+
+    case 'user_transmit':
+      if (!isRecord(payload) || !isString(payload.userId) || !isTransmitMode(payload.mode) || !isBoolean(payload.transmitting)) {
+        return invalid();
+      }
+      return ok({ type, payload: { userId: payload.userId, mode: payload.mode, transmitting: payload.transmitting } });
+
+    case 'kicked':
+      if (!isRecord(payload) || !isString(payload.byName)) return invalid();
+      return ok({ type, payload: { byName: payload.byName } });
+
+    case 'chat_message':
+      if (!isChatLogEntry(payload)) return invalid();
+      return ok({ type, payload });
+
+    case 'chat_history':
+      if (!isRecord(payload) || !isArrayOf(isChatLogEntry)(payload.messages)) return invalid();
+      return ok({ type, payload: { messages: payload.messages } });
+
+    case 'audio_offer':
+      if (!isRelayed(payload) || !isSessionDescription(payload.offer)) return invalid();
+      return ok({ type, payload: { targetUserId: payload.targetUserId, fromUserId: payload.fromUserId, offer: payload.offer } });
+
+    case 'audio_answer':
+      if (!isRelayed(payload) || !isSessionDescription(payload.answer)) return invalid();
+      return ok({ type, payload: { targetUserId: payload.targetUserId, fromUserId: payload.fromUserId, answer: payload.answer } });
+
+    case 'ice_candidate':
+      if (!isRelayed(payload) || !isIceCandidate(payload.candidate)) return invalid();
+      return ok({ type, payload: { targetUserId: payload.targetUserId, fromUserId: payload.fromUserId, candidate: payload.candidate } });
+
+    case 'audio_hangup':
+      if (!isRelayed(payload)) return invalid();
+      return ok({ type, payload: { targetUserId: payload.targetUserId, fromUserId: payload.fromUserId } });
+
+    case 'error':
+      if (!isRecord(payload) || !isErrorCode(payload.code) || !isString(payload.message)) return invalid();
+      return ok({ type, payload: { code: payload.code, message: payload.message } });
+
+    default:
+      return fail('unknown_type', `Unknown message type: ${type}`);
+  }
+}
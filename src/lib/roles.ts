@@ -0,0 +1,21 @@
+// Room roles. The first person in the room, or whoever joins with the room admin
+// secret, is the owner and can make moderators. Owners and moderators can kick,
+// server-mute and move people below them, and lock seats. The server enforces
+// these with the same checks the client uses to decide which controls to show.
+
+export type UserRole = 'owner' | 'moderator' | 'member';
+
+const ROLES: UserRole[] = ['member', 'moderator', 'owner']; // Lowest first
+
+export function isUserRole(value: unknown): value is UserRole {
+  return ROLES.includes(value as UserRole);
+}
+
+export function canModerate(role: UserRole): boolean {
+  return role !== 'member';
+}
+
+// Moderators act on members; the owner acts on everyone else
+export function canModerateUser(actor: UserRole, target: UserRole): boolean {
+  return canModerate(actor) && ROLES.indexOf(actor) > ROLES.indexOf(target);
+}
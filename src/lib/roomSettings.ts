@@ -0,0 +1,49 @@
+// Per-room settings, chosen when the room is created and persisted with it.
+
+import { DEFAULT_ATTENUATION, sanitizeAttenuation, type AttenuationSettings } from './attenuation';
+
+export interface RoomSettings {
+  attenuation: AttenuationSettings; // Hearing range and falloff for both audio and chat
+  freeMovement: boolean; // Walk anywhere (drag or WASD) instead of only hopping between seats
+  maxPeers: number; // Most audio connections each client keeps open, nearest first
+}
+
+export const MAX_PEERS_LIMIT = 32;
+
+export const DEFAULT_ROOM_SETTINGS: RoomSettings = {
+  attenuation: DEFAULT_ATTENUATION,
+  freeMovement: false,
+  maxPeers: 12
+};
+
+function sanitizeMaxPeers(value: number | undefined): number {
+  return value !== undefined && Number.isFinite(value) && value >= 1
+    ? Math.min(MAX_PEERS_LIMIT, Math.floor(value))
+    : DEFAULT_ROOM_SETTINGS.maxPeers;
+}
+
+// Settings come from the creating connection's query string,
+// e.g. ?movement=free&falloff=inverse&ref=10&rolloff=1.5&range=60&peers=8
+export function roomSettingsFromQuery(query: URLSearchParams): RoomSettings {
+  const number = (key: string) => (query.has(key) ? Number(query.get(key)) : undefined);
+
+  return {
+    attenuation: sanitizeAttenuation({
+      model: (query.get('falloff') ?? undefined) as AttenuationSettings['model'] | undefined,
+      refDistance: number('ref'),
+      rolloff: number('rolloff'),
+      maxRange: number('range')
+    }),
+    freeMovement: query.get('movement') === 'free',
+    maxPeers: sanitizeMaxPeers(number('peers'))
+  };
+}
+
+// Settings saved by older versions may be missing fields or carry retired ones
+export function restoreRoomSettings(stored: Partial<RoomSettings>): RoomSettings {
+  return {
+    attenuation: sanitizeAttenuation(stored.attenuation ?? {}),
+    freeMovement: stored.freeMovement ?? DEFAULT_ROOM_SETTINGS.freeMovement,
+    maxPeers: sanitizeMaxPeers(stored.maxPeers)
+  };
+}
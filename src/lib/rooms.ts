@@ -0,0 +1,22 @@
+// Room id helpers shared by the lobby, the room route and the PartyKit server.
+// Room ids end up in URLs and PartyKit room names, so keep them short and URL-safe.
+
+export const MAX_ROOM_ID_LENGTH = 48;
+
+export function normalizeRoomId(input: string): string {
+  return input
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, "-") // Spaces and punctuation become dashes
+    .replace(/-{2,}/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, MAX_ROOM_ID_LENGTH);
+}
+
+export function isValidRoomId(roomId: string): boolean {
+  return roomId.length > 0 && roomId === normalizeRoomId(roomId);
+}
+
+export function generateRoomId(): string {
+  return `room-${Math.random().toString(36).slice(2, 8)}`;
+}
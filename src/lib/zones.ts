@@ -0,0 +1,42 @@
+// Acoustic zone rules shared by the client (per-peer audio gain) and the
+// PartyKit server (proximity chat delivery), so what you can hear and what
+// you can read always agree.
+
+import type { Position, ZoneDefinition } from './layouts';
+
+export function isInsideZone(zone: ZoneDefinition, position: Position): boolean {
+  return (
+    Math.abs(position.x - zone.position.x) <= zone.width / 2 &&
+    Math.abs(position.y - zone.position.y) <= zone.height / 2
+  );
+}
+
+// Zones shouldn't overlap; if they do, the first one listed wins
+export function findZone(zones: ZoneDefinition[], position: Position): ZoneDefinition | undefined {
+  return zones.find((zone) => isInsideZone(zone, position));
+}
+
+export function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+// Gain multiplier (0-1) for a speaker as heard by a listener, on top of distance.
+// Inside the same zone (or both outside every zone) nothing changes; otherwise
+// the voice crosses the edge of each zone involved and gets each one's rule.
+export function getZoneGain(zones: ZoneDefinition[], listener: Position, speaker: Position): number {
+  const listenerZone = findZone(zones, listener);
+  const speakerZone = findZone(zones, speaker);
+  if (listenerZone?.id === speakerZone?.id) return 1;
+
+  let gain = 1;
+  for (const zone of [listenerZone, speakerZone]) {
+    if (!zone) continue;
+    if (zone.rule === 'isolated') return 0;
+    gain *= dbToGain(-(zone.attenuationDb ?? 0));
+  }
+  return gain;
+}
+
+export function canHearAcrossZones(zones: ZoneDefinition[], listener: Position, speaker: Position): boolean {
+  return getZoneGain(zones, listener, speaker) > 0;
+}